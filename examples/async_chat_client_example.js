@@ -1,12 +1,12 @@
 /**
- * Example script demonstrating the asynchronous AdcortexChatClient usage.
+ * Example script demonstrating background ad requests with AsyncAdcortexChatClient.
  */
 
 import { createLogger, format, transports } from 'winston';
 import dotenv from 'dotenv';
 
 import { AsyncAdcortexChatClient } from 'adcortex-js';
-import { SessionInfoSchema, Role } from "adcortex-js";
+import { SessionInfoSchema, Role, ProcessingMode } from "adcortex-js";
 
 // Load environment variables
 dotenv.config();
@@ -47,13 +47,16 @@ function create_session_info() {
   }
   
 
-function process_chat_interaction(chat_client, role, content){
+async function process_chat_interaction(chat_client, role, content){
     /**
      * Process a single chat interaction and return the context if an ad was found.
      */
     try {
-    // Send message and process queue
-    chat_client.__call__(role, content);
+    // Send message; the ad request runs in the background
+    await chat_client.__call__(role, content);
+
+    // Wait for the ad request before building the next prompt
+    await chat_client.wait_until_idle();
     
     // Check if we got a new ad
     const latest_ad = chat_client.get_latest_ad();
@@ -105,15 +108,12 @@ async function main() {
    * Main async function demonstrating chat client usage.
    */
   // Initialize the chat client
-  const chat_client = new AsyncAdcortexChatClient(
-    create_session_info(),
-    null, // Default context template
-    null, // Default API key from env
-    5, // timeout in seconds
-    // log_level not used in TS version
-    false, // disable_logging
-    50 // max_queue_size
-  );
+  const chat_client = new AsyncAdcortexChatClient(create_session_info(), {
+    timeout: 5, // timeout in seconds
+    disable_logging: false,
+    max_queue_size: 50,
+    processing_mode: ProcessingMode.background
+  });
 
   // Process the conversation
   await process_conversation(chat_client);
@@ -1,5 +1,5 @@
 /**
- * Example script demonstrating the synchronous AdcortexChatClient usage.
+ * Example script demonstrating AdcortexChatClient usage, waiting for each ad request.
  */
 
 import { createLogger, format, transports } from 'winston';
@@ -47,13 +47,13 @@ function create_session_info() {
   });
 }
 
-function process_chat_interaction(chat_client, role, content){
+async function process_chat_interaction(chat_client, role, content){
   /**
    * Process a single chat interaction and return the context if an ad was found.
    */
   try {
-    // Send message and process queue
-    chat_client.__call__(role, content);
+    // Send message and wait for the ad request
+    await chat_client.__call__(role, content);
     
     // Check if we got a new ad
     const latest_ad = chat_client.get_latest_ad();
@@ -72,14 +72,11 @@ async function main() {
    * Main function demonstrating chat client usage.
    */
   // Initialize the chat client
-  const chat_client = new AdcortexChatClient(
-    create_session_info(),
-    null, // Default context template
-    null, // Default API key from env
-    5, // timeout
-    false, // disable_logging
-    50 // max_queue_size
-  );
+  const chat_client = new AdcortexChatClient(create_session_info(), {
+    timeout: 5,
+    disable_logging: false,
+    max_queue_size: 50
+  });
 
   // Simulate a chat conversation
   const conversation = [
@@ -90,7 +87,7 @@ async function main() {
   // Process the conversation
   for (const { role, content } of conversation) {
     logger.info(`${role}: ${content}`);
-    const context = process_chat_interaction(chat_client, role, content);
+    const context = await process_chat_interaction(chat_client, role, content);
     
     if (context) {
       logger.info("Ad context generated:");
@@ -0,0 +1,85 @@
+/**
+ * Axios adapter for the ADCortex transport layer.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+
+import {
+  RetrySettings,
+  Transport,
+  TransportError,
+  TransportRequest,
+  TransportResponse,
+  aborted_error,
+  post_with_retries,
+  resolve_retry_settings
+} from './transport.js';
+
+/**
+ * Transport backed by axios.
+ *
+ * Requests go through a private axios instance unless one is passed in, so the
+ * global axios object is left untouched. Retries follow the same settings as
+ * FetchTransport and are applied by the transport, not by axios interceptors.
+ */
+export class AxiosTransport implements Transport {
+  private _axios: AxiosInstance;
+  private _retry: RetrySettings;
+
+  /**
+   * @param retry - Retry settings, or the number of retries after the first attempt.
+   *     Pass 0 if the instance already retries on its own
+   * @param instance - Preconfigured axios instance
+   */
+  constructor(retry: number | Partial<RetrySettings> = 3, instance?: AxiosInstance) {
+    this._axios = instance ?? axios.create();
+    this._retry = resolve_retry_settings(retry);
+  }
+
+  public post(request: TransportRequest): Promise<TransportResponse> {
+    return post_with_retries(request, this._retry, attempt => this._attempt(attempt));
+  }
+
+  private async _attempt(request: TransportRequest): Promise<TransportResponse> {
+    try {
+      const response = await this._axios.post(request.url, request.body, {
+        headers: request.headers,
+        timeout: request.timeout,
+        signal: request.signal,
+      });
+      return {
+        status: response.status,
+        data: response.data ?? null,
+        headers: AxiosTransport._headers(response.headers),
+      };
+    } catch (e) {
+      if (request.signal?.aborted) {
+        throw aborted_error(request.signal);
+      }
+      if (!axios.isAxiosError(e)) {
+        throw new TransportError(e instanceof Error ? e.message : String(e), "NETWORK");
+      }
+      if (e.response) {
+        throw new TransportError(e.message, "HTTP_ERROR", {
+          status: e.response.status,
+          data: e.response.data ?? null,
+          headers: AxiosTransport._headers(e.response.headers),
+        });
+      }
+      if (e.code === "ECONNABORTED" || e.code === "ETIMEDOUT") {
+        throw new TransportError(e.message, "TIMEOUT");
+      }
+      throw new TransportError(e.message, "NETWORK");
+    }
+  }
+
+  private static _headers(headers: Record<string, any> | undefined): Record<string, string> {
+    const record: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers ?? {})) {
+      if (value !== undefined && value !== null) {
+        record[key.toLowerCase()] = String(value);
+      }
+    }
+    return record;
+  }
+}
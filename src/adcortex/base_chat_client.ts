@@ -0,0 +1,1277 @@
+/**
+ * Shared core of the ADCortex chat clients.
+ *
+ * AdcortexChatClient and AsyncAdcortexChatClient are both built on
+ * BaseAdcortexChatClient and behave identically. The one behavior that
+ * differs between integrations, whether __call__ waits for the ad request,
+ * is selected with the processing_mode option.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { 
+  Ad, 
+  AdResponse, 
+  AdResponseSchema, 
+  Attachment, 
+  Message, 
+  MessageInput, 
+  MessageSchema, 
+  Platform, 
+  Role, 
+  SessionInfo, 
+  SessionInfoSchema, 
+  UserInfo 
+} from './types.js';
+import {
+  ClientState,
+  CircuitBreaker,
+  CircuitBreakerRegistry,
+  CircuitState,
+  EndpointPool,
+  SHARED_BREAKER_REGISTRY
+} from './state.js';
+import { Transport, TransportError, TransportResponse, aborted_error, abortable } from './transport.js';
+import {
+  AdcortexAbortError,
+  AdcortexError,
+  AdcortexResponseValidationError,
+  AdcortexTimeoutError,
+  CircuitOpenError,
+  to_adcortex_error
+} from './errors.js';
+import { LogFields, Logger, redact_payload } from './logger.js';
+import { AdcortexEventMap, EventListener, TypedEventEmitter } from './events.js';
+import { AdSelector, SelectionContext, ad_key } from './selection.js';
+import { EventTracker, TrackingEventType } from './tracking.js';
+import { ContextTemplate } from './templating.js';
+import { ContextWindow, HistoryMode } from './windowing.js';
+import { PiiScrubber, builtin_redactors } from './pii.js';
+import { PrivacyPolicy } from './privacy.js';
+import { BrandSafetyFilter, FilteredAd } from './brand_safety.js';
+import { AdPacer, InMemoryPacingStore } from './pacing.js';
+import { AnthropicContentBlock, OpenAIChatMessage, anthropic_system_block, openai_system_message } from './message_formats.js';
+import { StreamChunk, StreamInjectionOptions, StreamPart, inject_ad } from './streaming.js';
+import { SESSION_STATE_VERSION, SessionState, SessionStateSchema, StateStore, session_state_key } from './persistence.js';
+import { AdcortexClientOptions, PositionalClientArgs, ProcessingMode, resolve_client_options } from './config.js';
+
+// Number of recent ads whose RGUID is kept for impression and click tracking
+const MAX_TRACKED_ADS = 100;
+
+/**
+ * Options of a single __call__.
+ *
+ * signal and deadline apply to the ad request the call starts. A message queued while another
+ * request is in flight starts none; it is sent with the next one. The other options are
+ * metadata of the message, see MessageSchema.
+ *
+ * Attributes:
+ *     signal (AbortSignal): Cancels the ad request, including its retries.
+ *     deadline (number): Seconds the ad request may take, retries included, before it is
+ *         cancelled like an aborted one.
+ *     message_id (string): ID of the message, e.g. the one your chat storage uses. Defaults to a new UUID.
+ *     timestamp (number): Unix time in seconds of the message. Defaults to now.
+ *     locale (string): BCP 47 locale of the message.
+ *     attachments (Attachment[]): Files attached to the message.
+ */
+export interface CallOptions {
+  signal?: AbortSignal;
+  deadline?: number;
+  message_id?: string;
+  timestamp?: number;
+  locale?: string;
+  attachments?: Attachment[];
+}
+
+/**
+ * Options of await_ad.
+ *
+ * Attributes:
+ *     max_wait (number): Seconds to wait for the ad request in flight. Defaults to waiting until
+ *         it completes.
+ */
+export interface AwaitAdOptions {
+  max_wait?: number;
+}
+
+/**
+ * Options of stream_with_ad.
+ *
+ * Attributes:
+ *     track_impression (boolean): Whether the inserted ad is reported with track_impression.
+ *         Defaults to true.
+ */
+export interface StreamAdOptions extends StreamInjectionOptions {
+  track_impression?: boolean;
+}
+
+/**
+ * Options of switch_character.
+ *
+ * Attributes:
+ *     keep_messages (boolean): Keep the queued messages and the history, so the next ad request
+ *         still sees the conversation with the previous character. Defaults to false: the
+ *         conversation starts over, and pending ads are cleared as well.
+ */
+export interface SwitchCharacterOptions {
+  keep_messages?: boolean;
+}
+
+function call_signal(options: CallOptions): { signal?: AbortSignal; dispose: () => void } {
+  /**
+   * Combine the signal and deadline of a call into one signal.
+   */
+  if (options.deadline === undefined) {
+    return { signal: options.signal, dispose: () => {} };
+  }
+  const controller = new AbortController();
+  const deadline = options.deadline;
+  const timer = setTimeout(() => controller.abort(new Error(`deadline of ${deadline}s exceeded`)), deadline * 1000);
+  const abort = () => controller.abort(options.signal!.reason);
+  if (options.signal?.aborted) {
+    abort();
+  }
+  options.signal?.addEventListener("abort", abort, { once: true });
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", abort);
+    }
+  };
+}
+
+/**
+ * Chat client for ADCortex API with message queue and circuit breaker support.
+ *
+ * This client provides:
+ * - Message queue management with FIFO behavior
+ * - Circuit breaker pattern for error handling
+ * - Batch processing of messages
+ * - Automatic retries with exponential backoff
+ */
+export class BaseAdcortexChatClient {
+  private _session_info: SessionInfo;
+  private _context_template: ContextTemplate;
+  private _api_key: string;
+  private _endpoints: EndpointPool;
+  private _timeout: number;
+  private _deadline?: number;
+  private _headers: Record<string, string>;
+  private _transport: Transport;
+  public latest_ad: Ad | null;
+  public latest_ads: Ad[];
+  private _ad_selector: AdSelector;
+  private _brand_safety: BrandSafetyFilter;
+  private _on_filtered?: (filtered: FilteredAd) => void;
+  private _pacer: AdPacer;
+  private _ad_rguids: Map<string, string>;
+  private _tracker: EventTracker;
+  private _logger: Logger;
+  private _on_error?: (error: AdcortexError) => void;
+  private _throw_on_error: boolean;
+  private _processing_mode: ProcessingMode;
+  private _events: TypedEventEmitter<AdcortexEventMap>;
+  
+  // Queue management
+  private _message_queue: Message[];
+  private _max_queue_size: number;
+
+  // History management
+  private _history_mode: HistoryMode;
+  private _history: Message[];
+  private _first_user_message: Message | null;
+  private _conversation: number;  // Bumped whenever the conversation is reset
+  private _window: ContextWindow;
+  private _scrubber: PiiScrubber | null;
+
+  // Privacy
+  private _privacy: PrivacyPolicy;
+  
+  // State management
+  private _state: ClientState;
+  private _processing_task: Promise<void> | null;
+  private _follow_up: CallOptions | null;
+  
+  // Circuit breakers, one per endpoint
+  private _breakers: CircuitBreakerRegistry;
+  private _create_breaker: () => CircuitBreaker;
+
+  // Persistence
+  private _state_store?: StateStore;
+  private _persisting: Promise<void>;
+  
+  /**
+   * @param session_info - Session and user information
+   * @param options - Client options, see AdcortexClientOptionsSchema for defaults
+   */
+  constructor(session_info: SessionInfo, options?: AdcortexClientOptions);
+  /**
+   * @deprecated Pass an AdcortexClientOptions object instead of positional arguments.
+   */
+  constructor(session_info: SessionInfo, ...args: PositionalClientArgs);
+  constructor(session_info: SessionInfo, ...args: [AdcortexClientOptions?] | PositionalClientArgs) {
+    const options = resolve_client_options(args);
+    this._session_info = session_info;
+    this._context_template = options.context_template;
+    this._api_key = options.api_key;
+    this._endpoints = new EndpointPool(
+      options.endpoints,
+      options.failover_threshold,
+      options.logger
+    );
+    this._headers = {
+      "Content-Type": "application/json",
+      "X-API-KEY": this._api_key,
+    };
+    this._transport = options.transport;
+    this._timeout = options.timeout;
+    this._deadline = options.retry.deadline;
+    this.latest_ad = null;
+    this.latest_ads = [];
+    this._ad_selector = options.ad_selector;
+    const { characters, on_filtered, ...rule } = options.brand_safety;
+    this._brand_safety = new BrandSafetyFilter({ rule: rule, characters: characters });
+    this._on_filtered = on_filtered;
+    const { store, ...pacing } = options.pacing;
+    this._pacer = new AdPacer(pacing, store ?? new InMemoryPacingStore(), options.logger);
+    this._ad_rguids = new Map();
+    this._logger = options.logger;
+    this._on_error = options.on_error;
+    this._throw_on_error = options.throw_on_error;
+    this._processing_mode = options.processing_mode;
+    this._tracker = new EventTracker(this._transport, {
+      endpoints: options.tracking.endpoints,
+      headers: this._headers,
+      timeout: this._timeout,
+      batch_size: options.tracking.batch_size,
+      flush_interval: options.tracking.flush_interval,
+      max_pending: options.tracking.max_pending,
+      failover_threshold: options.failover_threshold
+    }, this._logger);
+    this._events = new TypedEventEmitter<AdcortexEventMap>((error, event) => {
+      this._logger.error("Event listener failed", this._log_fields({ event: String(event), error: error }));
+    });
+    
+    // Queue management
+    this._message_queue = [];
+    this._max_queue_size = options.max_queue_size;
+
+    // History management
+    this._history_mode = options.history.mode;
+    this._history = [];
+    this._first_user_message = null;
+    this._conversation = 0;
+    this._window = new ContextWindow(options.history, this._logger);
+    this._scrubber = options.pii.enabled
+      ? new PiiScrubber([...builtin_redactors(options.pii.detectors), ...options.pii.redactors])
+      : null;
+
+    // Privacy
+    this._privacy = new PrivacyPolicy(options.privacy);
+    if (this._privacy.suppresses(session_info)) {
+      this._logger.info("User is below the minimum age, ad requests are suppressed", this._log_fields());
+    }
+    
+    // State management
+    this._state = ClientState.IDLE;
+    this._processing_task = null;
+    this._follow_up = null;
+    
+    // Circuit breakers, one per endpoint
+    this._breakers = options.circuit_breaker.registry
+      ?? (options.circuit_breaker.shared ? SHARED_BREAKER_REGISTRY : new CircuitBreakerRegistry());
+    this._create_breaker = () => new CircuitBreaker(
+      options.circuit_breaker_threshold,
+      options.circuit_breaker_timeout,
+      options.logger,
+      {
+        failure_rate: options.circuit_breaker.failure_rate,
+        window: options.circuit_breaker.window,
+        half_open_probes: options.circuit_breaker.half_open_probes
+      }
+    );
+
+    // Persistence
+    this._state_store = options.state_store;
+    this._persisting = Promise.resolve();
+  }
+
+  private _log_fields(fields: LogFields = {}): LogFields {
+    /**
+     * Structured fields attached to every log record.
+     */
+    return { session_id: this._session_info.session_id, ...fields };
+  }
+
+  public on<K extends keyof AdcortexEventMap>(event: K, listener: EventListener<AdcortexEventMap, K>): () => void {
+    /**
+     * Subscribe to a client event. Returns a function that removes the listener.
+     */
+    return this._events.on(event, listener);
+  }
+
+  public once<K extends keyof AdcortexEventMap>(event: K, listener: EventListener<AdcortexEventMap, K>): () => void {
+    /**
+     * Subscribe to the next occurrence of a client event only.
+     */
+    return this._events.once(event, listener);
+  }
+
+  public off<K extends keyof AdcortexEventMap>(event: K, listener: EventListener<AdcortexEventMap, K>): void {
+    /**
+     * Remove an event listener.
+     */
+    this._events.off(event, listener);
+  }
+
+  private _report_error(error: AdcortexError): void {
+    /**
+     * Pass an error to the on_error hook and rethrow it if configured to.
+     */
+    if (this._on_error) {
+      try {
+        this._on_error(error);
+      } catch (hook_error) {
+        this._logger.error("on_error hook failed", this._log_fields({ error: hook_error }));
+      }
+    }
+    if (this._throw_on_error) {
+      throw error;
+    }
+  }
+
+  public async __call__(role: Role, content: string, options: CallOptions = {}): Promise<void> {
+    /**
+     * Add a message to the queue and process it.
+     *
+     * In await processing mode this resolves once the ad request has completed and the session
+     * state is saved to the state_store, if any; in background mode it resolves as soon as the
+     * message is queued, see wait_until_idle.
+     *
+     * Aborting options.signal, or reaching options.deadline, cancels the ad request and its
+     * retries. The messages stay queued for the next request and the circuit breaker does not
+     * count it; __call__ resolves without an ad, or rejects with an AdcortexAbortError when
+     * throw_on_error is set.
+     *
+     * Messages are ignored entirely while ads are suppressed for the user, see ads_suppressed.
+     */
+    try {
+      await this._handle_message(role, content, options);
+    } finally {
+      if (this._processing_mode === ProcessingMode.await) {
+        await this._persisting;
+      }
+    }
+  }
+
+  private async _handle_message(role: Role, content: string, options: CallOptions): Promise<void> {
+    /**
+     * Queue a message and start processing the queue for user messages.
+     */
+    if (this.ads_suppressed()) {
+      return;
+    }
+
+    const { signal, deadline, ...metadata } = options;
+    const current_message = MessageSchema.parse({
+      role: role,
+      content: content,
+      timestamp: new Date().getTime() / 1000, // Convert to seconds for consistency with Python
+      ...metadata
+    });
+    this._enqueue(current_message);
+    if (role === Role.user) {
+      // Pacer operations run in call order, so this turn is counted before the pacing check
+      this._pacer.record_user_turn(this._session_info.session_id);
+    }
+    this._save_state();
+
+    // Requests are skipped while the circuit breaker is open; report it so callers can tell it apart from "no ad"
+    const breaker = this._breaker();
+    if (role === Role.user && this._with_breaker(breaker, () => breaker.is_open())) {
+      this._logger.warn("Circuit breaker open, skipping ad request", this._log_fields());
+      this._report_error(new CircuitOpenError());
+      return;
+    }
+
+    if (role !== Role.user) {
+      return;
+    }
+    // Process queue if not already processing
+    if (this._state === ClientState.IDLE) {
+      const task = this._start_processing({ signal, deadline });
+      if (this._processing_mode === ProcessingMode.await) {
+        await task;
+      }
+    } else if (this._processing_mode === ProcessingMode.prefetch) {
+      // Matching for this message starts as soon as the request in flight completes
+      this._follow_up = { signal, deadline };
+    }
+  }
+
+  public add_past_messages(messages: MessageInput[]): number {
+    /**
+     * Add earlier messages of the conversation, e.g. when resuming it, without requesting an ad.
+     *
+     * The messages keep their timestamps, or get the current time, and are queued in timestamp
+     * order with the messages already queued, so the next ad request sends them with their real
+     * timing even when they are added after newer messages. Messages whose message_id is already
+     * queued or in the history are skipped, so a stored conversation can be added again after
+     * restore. Past user turns do not count for pacing. Ignored while ads are suppressed.
+     *
+     * @returns The number of messages added
+     */
+    if (this.ads_suppressed()) {
+      return 0;
+    }
+    const known = new Set([...this._history, ...this._message_queue].map(message => message.message_id));
+    const added = messages
+      .map(message => MessageSchema.parse(message))
+      .filter(message => !known.has(message.message_id))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    for (const message of added) {
+      this._enqueue(message);
+    }
+    if (added.length > 0) {
+      this._save_state();
+    }
+    return added.length;
+  }
+
+  private _enqueue(message: Message): void {
+    /**
+     * Add a message to the queue in timestamp order, dropping the oldest one if it is full.
+     *
+     * A user message older than the current first user message becomes the first one.
+     */
+    let index = this._message_queue.length;
+    while (index > 0 && this._message_queue[index - 1].timestamp > message.timestamp) {
+      index -= 1;
+    }
+    this._message_queue.splice(index, 0, message);
+    if (this._message_queue.length > this._max_queue_size) {
+      const dropped = this._message_queue.shift()!;  // Remove oldest message
+      this._logger.warn("Queue full, removed oldest message", this._log_fields({
+        queue_size: this._message_queue.length
+      }));
+      this._events.emit("message_dropped", {
+        session_id: this._session_info.session_id,
+        message: dropped,
+        queue_size: this._message_queue.length
+      });
+      if (dropped === message) {
+        return;
+      }
+    }
+
+    if (message.role === Role.user
+      && (!this._first_user_message || message.timestamp < this._first_user_message.timestamp)) {
+      this._first_user_message = message;
+    }
+    this._logger.debug("Message queued", this._log_fields({
+      role: message.role,
+      queue_size: this._message_queue.length
+    }));
+    this._events.emit("message_queued", {
+      session_id: this._session_info.session_id,
+      message: message,
+      queue_size: this._message_queue.length
+    });
+  }
+
+  private _start_processing(options: CallOptions): Promise<void> {
+    /**
+     * Start processing the queue, tracking the task in _processing_task.
+     */
+    this._state = ClientState.PROCESSING;
+    const task = this._run_processing(options);
+    this._processing_task = task;
+    if (this._processing_mode !== ProcessingMode.await) {
+      // Nobody awaits a background task, so its failures end at on_error
+      task.catch(() => {});
+    }
+    return task;
+  }
+
+  public async await_ad(options: AwaitAdOptions = {}): Promise<Ad | null> {
+    /**
+     * Wait for the ad request in flight, if any, then hand out the ad with get_latest_ad.
+     *
+     * Meant for the prefetch and background processing modes: queue the user message, start the
+     * LLM call, then await the ad for at most options.max_wait seconds. When the budget runs out
+     * the request keeps running and this returns any ad still pending from an earlier request, or
+     * null. An ad arriving late stays in latest_ad, so the next await_ad or get_latest_ad hands it
+     * out with the next turn. Never rejects.
+     */
+    const deadline = options.max_wait === undefined ? Infinity : Date.now() + options.max_wait * 1000;
+    // A prefetch follow-up request starts when the previous one completes, so wait for it too
+    while (this._processing_task && Date.now() < deadline) {
+      const settled = this._processing_task.then(() => true, () => true);
+      if (deadline === Infinity) {
+        await settled;
+        continue;
+      }
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const expired = new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), deadline - Date.now());
+      });
+      const completed = await Promise.race([settled, expired]);
+      clearTimeout(timer);
+      if (!completed) {
+        this._logger.debug("Ad request still in flight after max_wait", this._log_fields({
+          max_wait: options.max_wait
+        }));
+        break;
+      }
+    }
+    return this.get_latest_ad();
+  }
+
+  public ads_suppressed(): boolean {
+    /**
+     * Whether ad requests are suppressed because the user is below the minimum age.
+     */
+    return this._privacy.suppresses(this._session_info);
+  }
+
+  public update_user_info(user_info: Partial<UserInfo>): void {
+    /**
+     * Update the user, e.g. when they log in, change their profile or switch language mid-conversation.
+     *
+     * The given fields replace the current ones and the session is validated again with
+     * SessionInfoSchema. The queue and history are kept, so the next ad request sends the same
+     * conversation with the new user data. If the update puts the user below privacy.min_age,
+     * the queue, history and pending ads are cleared, as none of them may be used anymore.
+     *
+     * @throws ZodError if the updated session is invalid; the session is then left unchanged
+     */
+    this._update_session({ user_info: { ...this._session_info.user_info, ...user_info } }, "user_info", false);
+  }
+
+  public update_platform(platform: Partial<Platform>): void {
+    /**
+     * Update the platform, e.g. when the user moves to another app or experiment variant.
+     *
+     * The given fields replace the current ones and the session is validated again with
+     * SessionInfoSchema. The queue and history are kept.
+     *
+     * @throws ZodError if the updated session is invalid; the session is then left unchanged
+     */
+    this._update_session({ platform: { ...this._session_info.platform, ...platform } }, "platform", false);
+  }
+
+  public switch_character(character_name: string, character_metadata?: string, options: SwitchCharacterOptions = {}): void {
+    /**
+     * Switch the user to another character, keeping the character metadata unless a new one is given.
+     *
+     * A new character starts a new conversation: the queue, the history and the pending ads are
+     * cleared unless options.keep_messages is set. Brand-safety rules and templates use the new
+     * character from the next ad request on.
+     *
+     * @throws ZodError if the updated session is invalid; the session is then left unchanged
+     */
+    this._update_session({
+      character_name: character_name,
+      character_metadata: character_metadata ?? this._session_info.character_metadata
+    }, "character", !options.keep_messages);
+  }
+
+  private _update_session(
+    changes: Partial<Omit<SessionInfo, "session_id">>,
+    field: "user_info" | "platform" | "character",
+    reset: boolean
+  ): void {
+    /**
+     * Validate and apply changes to the session info, resetting the conversation if asked to.
+     *
+     * A request in flight keeps the payload it was sent with; the next one uses the new session.
+     */
+    const session_info = SessionInfoSchema.parse({ ...this._session_info, ...changes });
+    const was_suppressed = this.ads_suppressed();
+    this._session_info = session_info;
+    if (this.ads_suppressed() && !was_suppressed) {
+      this._logger.info("User is below the minimum age, ad requests are suppressed", this._log_fields());
+      reset = true;
+    }
+    if (reset) {
+      this._reset_conversation();
+    }
+    this._logger.debug("Session updated", this._log_fields({ field: field, reset: reset }));
+    this._events.emit("session_updated", {
+      session_id: this._session_info.session_id,
+      field: field,
+      reset: reset
+    });
+    if (reset) {
+      this._save_state();
+    }
+  }
+
+  private _reset_conversation(): void {
+    /**
+     * Drop the queued messages, the history and the pending ads.
+     *
+     * Ads already handed out can still be tracked. A request in flight finishes, but its ads
+     * are discarded, see _process_queue.
+     */
+    this._message_queue = [];
+    this._history = [];
+    this._first_user_message = null;
+    this.latest_ad = null;
+    this.latest_ads = [];
+    this._conversation += 1;
+  }
+
+  public async wait_until_idle(): Promise<void> {
+    /**
+     * Wait for the ad request in progress, if any, and pending state saves to complete. Never rejects.
+     *
+     * In prefetch mode this includes the follow-up requests the one in progress starts.
+     */
+    while (this._processing_task) {
+      await this._processing_task.catch(() => {});
+    }
+    await this._persisting;
+  }
+
+  private async _run_processing(options: CallOptions): Promise<void> {
+    /**
+     * Process the queue and report failures, returning the client to idle.
+     */
+    const { signal, dispose } = call_signal(options);
+    try {
+      await this._process_queue(signal);
+    } catch (e) {
+      // A cancelled request is the caller's choice, not a failure, so on_error is not called
+      if (e instanceof AdcortexAbortError) {
+        if (this._throw_on_error) {
+          throw e;
+        }
+        return;
+      }
+      if (!(e instanceof CircuitOpenError)) {
+        this._logger.error("Processing failed", this._log_fields({ error: e }));
+      }
+      this._report_error(to_adcortex_error(e));
+    } finally {
+      dispose();
+      this._state = ClientState.IDLE;
+      this._processing_task = null;
+      this._save_state();
+      const follow_up = this._follow_up;
+      this._follow_up = null;
+      if (follow_up && this._message_queue.length > 0) {
+        this._start_processing(follow_up);
+      }
+    }
+  }
+
+  private async _process_queue(signal?: AbortSignal): Promise<void> {
+    /**
+     * Process all messages in the queue in a single batch.
+     *
+     * The messages actually sent are chosen by the context window, see HistoryOptions.
+     */
+    if (!this._message_queue.length) {
+      return;
+    }
+
+    // Capped messages stay queued, so they are still sent with the next ad request
+    const capped = await this._pacer.check(this._session_info.session_id, this._session_info.user_info.user_id);
+    if (capped) {
+      this._logger.info("Ad pacing limit reached, skipping ad request", this._log_fields({ reason: capped }));
+      this.latest_ad = null;
+      this.latest_ads = [];
+      this._events.emit("ad_capped", { session_id: this._session_info.session_id, reason: capped });
+      return;
+    }
+
+    // A half-open breaker admits a limited number of probe requests
+    const breaker = this._breaker();
+    if (!this._with_breaker(breaker, () => breaker.allow_request())) {
+      this._logger.warn("Circuit breaker probes in progress, skipping ad request", this._log_fields());
+      throw new CircuitOpenError();
+    }
+
+    // Take a snapshot of current messages
+    const messages_to_process = [...this._message_queue];
+    this._logger.info("Processing messages in batch", this._log_fields({
+      batch_size: messages_to_process.length
+    }));
+    
+    const conversation = this._conversation;
+    try {
+      const candidates = this._history_mode === HistoryMode.window
+        ? [...this._history, ...messages_to_process]
+        : messages_to_process;
+      await this._fetch_ad_batch(await this._window.select(candidates, this._first_user_message), signal);
+      this._with_breaker(breaker, () => breaker.record_success());
+      if (conversation !== this._conversation) {
+        // The conversation was reset while the request was in flight; its ads and messages are stale
+        this._logger.info("Conversation reset during ad request, discarding its ads", this._log_fields());
+        this.latest_ad = null;
+        this.latest_ads = [];
+        return;
+      }
+      // Only remove messages that were successfully processed; the server has seen them now
+      const processed = new Set(messages_to_process);
+      this._message_queue = this._message_queue.filter(message => !processed.has(message));
+      this._remember_history(messages_to_process);
+    } catch (e) {
+      const error = to_adcortex_error(e);
+      if (error instanceof AdcortexAbortError) {
+        this._logger.info("Ad request aborted", this._log_fields({ rguid: error.rguid, reason: error.message }));
+        this._events.emit("request_aborted", { session_id: this._session_info.session_id, rguid: error.rguid });
+        this._with_breaker(breaker, () => breaker.release());
+        throw error;
+      }
+      const fields = this._log_fields({ rguid: error.rguid, status: error.status, error: error });
+      if (error instanceof AdcortexTimeoutError) {
+        this._logger.error("Batch request timed out", fields);
+      } else if (error instanceof AdcortexResponseValidationError) {
+        this._logger.error("Invalid response format", fields);
+      } else {
+        this._logger.error("Batch request failed", fields);
+      }
+      this._events.emit("request_failed", {
+        session_id: this._session_info.session_id,
+        rguid: error.rguid,
+        error: error
+      });
+      this._with_breaker(breaker, () => breaker.record_error());
+      throw error;
+    }
+  }
+
+  private _remember_history(messages: Message[]): void {
+    /**
+     * Keep sent messages for the window history mode, up to max_queue_size of them.
+     */
+    if (this._history_mode !== HistoryMode.window) {
+      return;
+    }
+    this._history.push(...messages);
+    if (this._history.length > this._max_queue_size) {
+      this._history.splice(0, this._history.length - this._max_queue_size);
+    }
+  }
+
+  private async _fetch_ad_batch(messages: Message[], signal?: AbortSignal): Promise<void> {
+    /**
+     * Fetch an ad based on all messages in a batch.
+     *
+     * Message content is scrubbed for PII before the payload is prepared.
+     */
+    const scrubbed = this._scrubber?.scrub(messages);
+    const payload = this._prepare_batch_payload(scrubbed ? scrubbed.messages : messages);
+    if (scrubbed) {
+      if (scrubbed.report.total > 0) {
+        this._logger.info("PII redacted from messages", this._log_fields({
+          rguid: payload.RGUID,
+          redacted: scrubbed.report.counts
+        }));
+      }
+      this._events.emit("pii_redacted", {
+        session_id: this._session_info.session_id,
+        rguid: payload.RGUID,
+        report: scrubbed.report
+      });
+    }
+    await this._send_request(payload, signal);
+  }
+
+  private _prepare_batch_payload(messages: Message[]): Record<string, any> {
+    /**
+     * Prepare the payload for the batch ad request.
+     */
+    // Convert session info to object and handle enum values
+    const session_info_dict = { ...this._session_info };
+    
+    // Convert messages to dict and handle enum values
+    const is_private = this._privacy.is_private(session_info_dict);
+    const messages_dict = messages.map(msg => ({
+      ...msg,
+      role: msg.role.toString(),
+      // File names and URLs can identify the user, so privacy mode keeps only the file type
+      ...(is_private && msg.attachments
+        ? { attachments: msg.attachments.map(({ name, url, ...attachment }) => attachment) }
+        : {})
+    }));
+    
+    const consent = this._privacy.consent(session_info_dict);
+    
+    return {
+      "RGUID": uuidv4(),
+      "session_info": {
+        "session_id": session_info_dict.session_id,
+        "character_name": session_info_dict.character_name,
+        "character_metadata": session_info_dict.character_metadata,
+      },
+      "user_data": this._privacy.user_data(session_info_dict),
+      "messages": messages_dict,
+      "platform": session_info_dict.platform,
+      ...(consent ? { "consent": consent } : {})
+    };
+  }
+
+  private async _send_request(payload: Record<string, any>, signal?: AbortSignal): Promise<void> {
+    /**
+     * Send the request to the ADCortex API.
+     *
+     * The signal also bounds transports that ignore TransportRequest.signal: the request is then
+     * left to finish in the background and its outcome is dropped.
+     */
+    if (signal?.aborted) {
+      throw to_adcortex_error(aborted_error(signal), payload.RGUID);
+    }
+    const fields = this._log_fields({ rguid: payload.RGUID });
+    this._logger.debug("Sending ad request", { ...fields, payload: redact_payload(payload) });
+    const endpoint = this._endpoints.current();
+    this._events.emit("request_started", {
+      session_id: this._session_info.session_id,
+      rguid: payload.RGUID,
+      endpoint: endpoint,
+      batch_size: payload.messages.length
+    });
+    const started = Date.now();
+    let response: TransportResponse;
+    try {
+      response = await abortable(this._transport.post({
+        url: endpoint,
+        body: payload,
+        // The RGUID is the same for every retry of this request, so the API can drop duplicates
+        headers: { ...this._headers, "Idempotency-Key": payload.RGUID },
+        timeout: this._timeout * 1000,
+        ...(this._deadline !== undefined ? { deadline: started + this._deadline * 1000 } : {}),
+        ...(signal ? { signal } : {})
+      }), signal);
+      this._endpoints.record_success();
+    } catch (e) {
+      fields.latency_ms = Date.now() - started;
+      if (e instanceof TransportError && e.code === 'ABORTED') {
+        // The caller gave up; this says nothing about the endpoint
+        throw to_adcortex_error(e, payload.RGUID);
+      }
+      if (e instanceof TransportError) {
+        // Client errors (4xx) are not the endpoint's fault, so they don't count towards failover
+        if (e.code !== 'HTTP_ERROR' || (e.status ?? 0) >= 500) {
+          this._endpoints.record_failure();
+        }
+        if (e.code === 'TIMEOUT') {
+          this._logger.error("Request timed out", fields);
+        } else {
+          this._logger.error("Error fetching ad", { ...fields, error: e, status: e.status });
+        }
+      } else {
+        this._logger.error("Unknown error", { ...fields, error: String(e) });
+      }
+      throw to_adcortex_error(e, payload.RGUID);
+    }
+    fields.latency_ms = Date.now() - started;
+    fields.status = response.status;
+    this._handle_response(response.data, fields);
+  }
+
+  private _handle_response(response_data: Record<string,any>, fields: LogFields): void {
+    /**
+     * Handle the response from the ad request.
+     */
+    const result = AdResponseSchema.safeParse(response_data);
+    if (!result.success) {
+      this._logger.error("Invalid ad response format", { ...fields, error: result.error.message });
+      this.latest_ad = null;
+      this.latest_ads = [];
+      throw new AdcortexResponseValidationError(
+        `Invalid ad response format: ${result.error.message}`,
+        fields.rguid as string,
+        fields.status as number,
+        result.error
+      );
+    }
+    const parsed_response = result.data;
+    const { allowed, filtered } = this._brand_safety.filter(parsed_response.ads, this._session_info.character_name);
+    for (const filtered_ad of filtered) {
+      this._report_filtered(filtered_ad, fields);
+    }
+    this.latest_ads = allowed;
+    for (const ad of allowed) {
+      this._remember_rguid(ad, fields.rguid as string);
+    }
+    const selected = allowed.length > 0
+      ? this._ad_selector.select(allowed, this._selection_context())
+      : null;
+    if (selected) {
+      this.latest_ad = selected;
+      this._logger.info("Ad fetched", {
+        ...fields,
+        ad_title: selected.ad_title,
+        candidate_count: allowed.length
+      });
+      this._events.emit("ad_received", {
+        session_id: this._session_info.session_id,
+        rguid: fields.rguid as string,
+        ad: selected,
+        candidates: allowed,
+        latency_ms: fields.latency_ms as number
+      });
+    } else {
+      const message = allowed.length > 0
+        ? "No ad selected from candidates"
+        : filtered.length > 0 ? "All ads filtered by brand-safety rules" : "No ads returned";
+      this._logger.info(message, { ...fields, candidate_count: allowed.length });
+      this._events.emit("no_ad", {
+        session_id: this._session_info.session_id,
+        rguid: fields.rguid as string,
+        latency_ms: fields.latency_ms as number
+      });
+    }
+  }
+
+  private _report_filtered(filtered: FilteredAd, fields: LogFields): void {
+    /**
+     * Log, emit and pass to the on_filtered hook an ad removed by the brand-safety rules.
+     */
+    this._logger.info("Ad filtered by brand-safety rules", {
+      ...fields,
+      ad_title: filtered.ad.ad_title,
+      reason: filtered.reason,
+      match: filtered.match
+    });
+    this._events.emit("ad_filtered", {
+      session_id: this._session_info.session_id,
+      rguid: fields.rguid as string,
+      ad: filtered.ad,
+      reason: filtered.reason,
+      match: filtered.match
+    });
+    if (this._on_filtered) {
+      try {
+        this._on_filtered(filtered);
+      } catch (hook_error) {
+        this._logger.error("on_filtered hook failed", this._log_fields({ error: hook_error }));
+      }
+    }
+  }
+
+  public create_context(ad: Ad | null = this.latest_ad): string {
+    /**
+     * Create a context string for an ad, by default latest_ad.
+     *
+     * Returns an empty string when there is no ad.
+     */
+    if (!ad) {
+      return "";
+    }
+    return this._context_template.render({ ad: ad, session: this._session_info });
+  }
+
+  public create_openai_context_message(ad: Ad | null = this.latest_ad): (OpenAIChatMessage & { role: "system"; content: string }) | null {
+    /**
+     * Create the context for an ad, by default latest_ad, as an OpenAI system message.
+     *
+     * Returns null when there is no ad.
+     */
+    return ad ? openai_system_message(this.create_context(ad)) : null;
+  }
+
+  public create_anthropic_context_block(ad: Ad | null = this.latest_ad): (AnthropicContentBlock & { type: "text"; text: string }) | null {
+    /**
+     * Create the context for an ad, by default latest_ad, as a text block for the Anthropic system parameter.
+     *
+     * Returns null when there is no ad.
+     */
+    return ad ? anthropic_system_block(this.create_context(ad)) : null;
+  }
+
+  public get_latest_ad(): Ad | null {
+    /**
+     * Get the latest ad and clear it from memory.
+     *
+     * The returned ad is reported to the ad selector and the pacer as shown.
+     */
+    const latest = this.latest_ad;
+    this.latest_ad = null;
+    if (latest) {
+      this._record_shown(latest);
+      this._save_state();
+    }
+    return latest;
+  }
+
+  public get_latest_ads(): Ad[] {
+    /**
+     * Get all candidate ads from the last response and clear them, along with latest_ad, from memory.
+     */
+    const candidates = this.latest_ads;
+    this.latest_ads = [];
+    this.latest_ad = null;
+    this._save_state();
+    return candidates;
+  }
+
+  public async *stream_with_ad(stream: AsyncIterable<StreamChunk>, options: StreamAdOptions = {}): AsyncGenerator<StreamPart> {
+    /**
+     * Pass a streamed LLM reply through, inserting the latest ad at a natural boundary, see inject_ad.
+     *
+     * The ad is taken with get_latest_ad when the boundary is reached, so one arriving while the reply
+     * streams is still used, and it counts as shown. Nothing is inserted when there is no ad.
+     */
+    const { track_impression, ...injection } = options;
+    for await (const part of inject_ad(stream, () => this.get_latest_ad(), { session: this._session_info, ...injection })) {
+      if (part.type === "ad" && track_impression !== false) {
+        this.track_impression(part.ad);
+      }
+      yield part;
+    }
+  }
+
+  public peek_ads(): Ad[] {
+    /**
+     * Get all candidate ads from the last response without clearing them.
+     */
+    return [...this.latest_ads];
+  }
+
+  public mark_ad_shown(ad: Ad): void {
+    /**
+     * Report an ad obtained through get_latest_ads or peek_ads as shown to the user.
+     */
+    this._record_shown(ad);
+  }
+
+  private _record_shown(ad: Ad): void {
+    /**
+     * Report a shown ad to the ad selector and count it for pacing.
+     */
+    this._ad_selector.record_shown?.(ad, this._selection_context());
+    this._pacer.record_shown(this._session_info.session_id, this._session_info.user_info.user_id);
+  }
+
+  public track_impression(ad: Ad): boolean {
+    /**
+     * Record that an ad was shown to the user.
+     *
+     * Impressions are deduplicated per ad request, so repeated calls for the same ad count once.
+     * Returns false for a duplicate.
+     */
+    return this._track(TrackingEventType.impression, ad);
+  }
+
+  public track_click(ad: Ad): boolean {
+    /**
+     * Record that the user clicked an ad. Deduplicated like track_impression.
+     */
+    return this._track(TrackingEventType.click, ad);
+  }
+
+  public async flush_events(): Promise<void> {
+    /**
+     * Send all pending impression and click events now.
+     */
+    await this._tracker.flush();
+  }
+
+  private _track(event_type: TrackingEventType, ad: Ad): boolean {
+    /**
+     * Record a tracking event correlated with the RGUID of the request that returned the ad.
+     */
+    const rguid = this._ad_rguids.get(ad_key(ad)) ?? null;
+    const tracked = this._tracker.track(
+      event_type,
+      ad,
+      rguid,
+      this._session_info.session_id,
+      this._privacy.is_private(this._session_info) ? null : this._session_info.user_info.user_id
+    );
+    this._logger.debug(tracked ? "Tracking event recorded" : "Duplicate tracking event ignored", this._log_fields({
+      event_type: event_type,
+      rguid: rguid
+    }));
+    return tracked;
+  }
+
+  private _remember_rguid(ad: Ad, rguid: string): void {
+    /**
+     * Remember which request returned an ad, keeping only the most recent ads.
+     */
+    const key = ad_key(ad);
+    this._ad_rguids.delete(key);
+    this._ad_rguids.set(key, rguid);
+    if (this._ad_rguids.size > MAX_TRACKED_ADS) {
+      this._ad_rguids.delete(this._ad_rguids.keys().next().value!);
+    }
+  }
+
+  private _selection_context(): SelectionContext {
+    /**
+     * Context passed to the ad selector.
+     */
+    return { session_id: this._session_info.session_id };
+  }
+
+  public async restore(): Promise<boolean> {
+    /**
+     * Rehydrate the queue, history, pending ads and circuit breaker of this session from the
+     * state_store. Call it once, before the first __call__.
+     *
+     * Returns false if there is no store, nothing was saved for the session, or the saved
+     * state is unreadable; the client then keeps its current state.
+     */
+    if (!this._state_store) {
+      return false;
+    }
+    let saved: unknown;
+    try {
+      saved = await this._state_store.get(session_state_key(this._session_info.session_id));
+    } catch (e) {
+      this._logger.warn("Failed to load session state", this._log_fields({ error: e }));
+      return false;
+    }
+    if (saved === null || saved === undefined) {
+      return false;
+    }
+    const result = SessionStateSchema.safeParse(saved);
+    if (!result.success) {
+      this._logger.warn("Ignoring invalid saved session state", this._log_fields({ error: result.error.message }));
+      return false;
+    }
+    this._apply_session_state(result.data);
+    this._logger.debug("Session state restored", this._log_fields({
+      queue_size: this._message_queue.length,
+      saved_at: new Date(result.data.saved_at).toISOString()
+    }));
+    return true;
+  }
+
+  public async clear_state(): Promise<void> {
+    /**
+     * Delete this session's saved state from the state_store, e.g. when the conversation ends.
+     */
+    if (!this._state_store) {
+      return;
+    }
+    // Let pending saves land first, so they don't recreate the state afterwards
+    await this._persisting;
+    await this._state_store.delete(session_state_key(this._session_info.session_id));
+  }
+
+  private _session_state(): SessionState {
+    /**
+     * Serializable state of the session.
+     */
+    const first_user_message_index = this._first_user_message
+      ? [...this._history, ...this._message_queue].indexOf(this._first_user_message)
+      : -1;
+    return {
+      version: SESSION_STATE_VERSION,
+      saved_at: Date.now(),
+      queue: this._message_queue,
+      history: this._history,
+      first_user_message: this._first_user_message,
+      first_user_message_index: first_user_message_index >= 0 ? first_user_message_index : null,
+      latest_ad: this.latest_ad,
+      latest_ads: this.latest_ads,
+      ad_rguids: [...this._ad_rguids],
+      circuit_breakers: this._endpoints.endpoints()
+        .filter(endpoint => this._breakers.has(endpoint))
+        .map(endpoint => [endpoint, this._breaker(endpoint).snapshot()])
+    };
+  }
+
+  private _apply_session_state(state: SessionState): void {
+    /**
+     * Replace the session state with a saved one.
+     */
+    this._message_queue = state.queue;
+    this._history = state.history;
+    // The window selection recognises the first user message by identity
+    this._first_user_message = state.first_user_message_index !== null
+      ? [...state.history, ...state.queue][state.first_user_message_index] ?? state.first_user_message
+      : state.first_user_message;
+    this.latest_ad = state.latest_ad;
+    this.latest_ads = state.latest_ads;
+    this._ad_rguids = new Map(state.ad_rguids);
+    // Live breakers, e.g. shared ones already used in this process, are more current than saved state
+    for (const [endpoint, snapshot] of state.circuit_breakers) {
+      if (!this._breakers.has(endpoint)) {
+        this._breaker(endpoint).restore(snapshot);
+      }
+    }
+  }
+
+  private _save_state(): Promise<void> {
+    /**
+     * Save the session state to the state_store. Saves are applied in call order, and
+     * failures are logged rather than thrown.
+     */
+    if (!this._state_store) {
+      return this._persisting;
+    }
+    const store = this._state_store;
+    const key = session_state_key(this._session_info.session_id);
+    // Serialize now, so that later changes don't leak into this save
+    const state = JSON.parse(JSON.stringify(this._session_state()));
+    this._persisting = this._persisting
+      .then(() => store.set(key, state))
+      .catch(e => {
+        this._logger.warn("Failed to save session state", this._log_fields({ error: e }));
+      });
+    return this._persisting;
+  }
+
+  private _breaker(endpoint: string = this._endpoints.current()): CircuitBreaker {
+    /**
+     * Circuit breaker of an endpoint, by default the current one.
+     */
+    return this._breakers.get(endpoint, this._create_breaker);
+  }
+
+  private _with_breaker<T>(breaker: CircuitBreaker, action: () => T): T {
+    /**
+     * Run an action on a circuit breaker, emitting client events for the transitions it causes.
+     *
+     * Listeners are only attached for the duration of the action, so shared breakers don't
+     * accumulate listeners of short-lived clients.
+     */
+    const session_id = this._session_info.session_id;
+    const unsubscribe = [
+      breaker.on("opened", ({ error_count, reset_time }) => {
+        this._events.emit("circuit_opened", { session_id: session_id, error_count: error_count, reset_time: reset_time });
+      }),
+      breaker.on("half_opened", () => this._events.emit("circuit_half_opened", { session_id: session_id })),
+      breaker.on("closed", () => this._events.emit("circuit_closed", { session_id: session_id }))
+    ];
+    try {
+      return action();
+    } finally {
+      unsubscribe.forEach(off => off());
+    }
+  }
+
+  public circuit_state(): CircuitState {
+    /**
+     * State of the circuit breaker of the current endpoint.
+     */
+    const breaker = this._breaker();
+    return this._with_breaker(breaker, () => breaker.state());
+  }
+
+  public get_state(): ClientState {
+    /**
+     * Get current client state.
+     */
+    return this._state;
+  }
+
+  public is_healthy(): boolean {
+    /**
+     * Check if the client is in a healthy state: the circuit breaker of the current endpoint is
+     * closed, which may be shared with other clients, and the queue is not full.
+     */
+    return (
+      this.circuit_state() === CircuitState.closed
+      && this._message_queue.length < this._max_queue_size
+    );
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Client-side brand-safety filtering of returned ads.
+ *
+ * A BrandSafetyFilter checks every candidate ad against blocklists and
+ * allowlists of link domains and of keywords in the ad title, description
+ * and placement_template, before an ad can become latest_ad. Rules can be set for all
+ * characters and refined per character_name. Content categories such as
+ * alcohol or gambling are matched with built-in keyword lists.
+ */
+
+import { Ad } from './types.js';
+
+/**
+ * Sensitive ad categories, recognised by the keywords in CATEGORY_KEYWORDS.
+ *
+ * Attributes:
+ *     alcohol: Beer, wine, spirits and bars.
+ *     gambling: Casinos, betting and lotteries.
+ *     dating: Dating and hookup services.
+ *     tobacco: Tobacco and vaping products.
+ *     adult: Adult content.
+ *     weapons: Firearms and ammunition.
+ */
+export enum AdCategory {
+  alcohol = "alcohol",
+  gambling = "gambling",
+  dating = "dating",
+  tobacco = "tobacco",
+  adult = "adult",
+  weapons = "weapons"
+}
+
+/**
+ * Keywords identifying each category in the ad text, see BrandSafetyRule. Matching is
+ * case-insensitive and on whole words, so it is a heuristic rather than a classification.
+ */
+export const CATEGORY_KEYWORDS: Record<AdCategory, string[]> = {
+  [AdCategory.alcohol]: [
+    "alcohol", "beer", "beers", "wine", "wines", "vodka", "whiskey", "whisky", "liquor",
+    "tequila", "rum", "gin", "cocktail", "cocktails", "brewery", "winery", "happy hour"
+  ],
+  [AdCategory.gambling]: [
+    "casino", "casinos", "gambling", "bet", "bets", "betting", "sportsbook", "poker", "slots",
+    "roulette", "blackjack", "jackpot", "lottery", "bookmaker"
+  ],
+  [AdCategory.dating]: [
+    "dating", "date night", "singles", "hookup", "hookups", "matchmaking", "soulmate", "flirt", "flirting"
+  ],
+  [AdCategory.tobacco]: [
+    "tobacco", "cigarette", "cigarettes", "cigar", "cigars", "vape", "vapes", "vaping", "nicotine", "e-cigarette"
+  ],
+  [AdCategory.adult]: [
+    "adult content", "xxx", "porn", "erotic", "nsfw", "escort", "escorts"
+  ],
+  [AdCategory.weapons]: [
+    "gun", "guns", "firearm", "firearms", "ammo", "ammunition", "rifle", "rifles", "handgun", "pistol"
+  ]
+};
+
+/**
+ * Blocklists and allowlists applied to candidate ads.
+ *
+ * Attributes:
+ *     blocked_categories (AdCategory[]): Categories whose keywords block an ad.
+ *     blocked_domains (string[]): Link domains that block an ad, including their subdomains.
+ *     allowed_domains (string[]): When set, only ads linking to these domains or their
+ *         subdomains are allowed.
+ *     blocked_keywords (string[]): Words or phrases in the ad text that block an ad.
+ *     allowed_keywords (string[]): When set, only ads whose text contains one of these words
+ *         or phrases are allowed.
+ *
+ * The ad text checked for keywords and categories is the title, the description and the
+ * placement_template, which is the text the user actually sees.
+ */
+export interface BrandSafetyRule {
+  blocked_categories?: AdCategory[];
+  blocked_domains?: string[];
+  allowed_domains?: string[];
+  blocked_keywords?: string[];
+  allowed_keywords?: string[];
+}
+
+/**
+ * Settings of a BrandSafetyFilter.
+ *
+ * Blocklists of a character rule add to the global ones; allowlists of a character rule
+ * replace the global ones.
+ *
+ * Attributes:
+ *     rule (BrandSafetyRule): Rule applied for every character.
+ *     characters (Record<string, BrandSafetyRule>): Rules per character_name.
+ */
+export interface BrandSafetySettings {
+  rule: BrandSafetyRule;
+  characters: Record<string, BrandSafetyRule>;
+}
+
+/**
+ * Why an ad was filtered.
+ *
+ * Attributes:
+ *     blocked_category: Its text matched a keyword of a blocked category.
+ *     blocked_domain: Its link is on a blocked domain.
+ *     domain_not_allowed: Its link is not on an allowed domain.
+ *     blocked_keyword: Its text contains a blocked keyword.
+ *     keyword_not_allowed: Its text contains none of the allowed keywords.
+ */
+export enum FilterReason {
+  blocked_category = "blocked_category",
+  blocked_domain = "blocked_domain",
+  domain_not_allowed = "domain_not_allowed",
+  blocked_keyword = "blocked_keyword",
+  keyword_not_allowed = "keyword_not_allowed"
+}
+
+/**
+ * An ad removed by the brand-safety filter.
+ *
+ * Attributes:
+ *     ad (Ad): The filtered ad.
+ *     reason (FilterReason): Why it was filtered.
+ *     match (string | null): The category, domain or keyword that matched; null for allowlist misses.
+ *     character_name (string): Character the ad was filtered for.
+ *     character_rule (boolean): Whether the character's own rule filtered it rather than the global rule.
+ */
+export interface FilteredAd {
+  ad: Ad;
+  reason: FilterReason;
+  match: string | null;
+  character_name: string;
+  character_rule: boolean;
+}
+
+/**
+ * Domain of an ad link, lower-cased and without a leading "www.". Null if the link is not a URL.
+ */
+export function link_domain(link: string): string | null {
+  try {
+    return new URL(link).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+function normalize_domain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^\*?\.|^www\./, "");
+}
+
+function on_domain(domain: string, listed: string): boolean {
+  const normalized = normalize_domain(listed);
+  return domain === normalized || domain.endsWith(`.${normalized}`);
+}
+
+function keyword_pattern(keyword: string): RegExp {
+  const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "iu");
+}
+
+/**
+ * Filters candidate ads with brand-safety rules.
+ */
+export class BrandSafetyFilter {
+  private _settings: BrandSafetySettings;
+  private _patterns: Map<string, RegExp>;
+
+  /**
+   * @param settings - Global and per-character rules
+   */
+  constructor(settings: BrandSafetySettings) {
+    this._settings = settings;
+    this._patterns = new Map();
+  }
+
+  /**
+   * Split candidates into the ads allowed for a character and the ads filtered out.
+   */
+  public filter(candidates: Ad[], character_name: string): { allowed: Ad[]; filtered: FilteredAd[] } {
+    const allowed: Ad[] = [];
+    const filtered: FilteredAd[] = [];
+    for (const ad of candidates) {
+      const verdict = this.check(ad, character_name);
+      if (verdict) {
+        filtered.push(verdict);
+      } else {
+        allowed.push(ad);
+      }
+    }
+    return { allowed, filtered };
+  }
+
+  /**
+   * Check one ad for a character.
+   *
+   * @returns Why the ad is filtered, or null if it is allowed
+   */
+  public check(ad: Ad, character_name: string): FilteredAd | null {
+    const global = this._settings.rule;
+    const character = this._settings.characters[character_name];
+    const verdict = this._check_blocklists(ad, global) ?? (character ? this._check_blocklists(ad, character) : null);
+    if (verdict) {
+      return { ad, ...verdict, character_name };
+    }
+    const allowlists = {
+      allowed_domains: character?.allowed_domains ?? global.allowed_domains,
+      allowed_keywords: character?.allowed_keywords ?? global.allowed_keywords
+    };
+    const miss = this._check_allowlists(ad, allowlists);
+    if (miss) {
+      const character_rule = miss === FilterReason.domain_not_allowed
+        ? character?.allowed_domains !== undefined
+        : character?.allowed_keywords !== undefined;
+      return { ad, reason: miss, match: null, character_name, character_rule };
+    }
+    return null;
+  }
+
+  private _check_blocklists(
+    ad: Ad,
+    rule: BrandSafetyRule
+  ): { reason: FilterReason; match: string; character_rule: boolean } | null {
+    const character_rule = rule !== this._settings.rule;
+    const domain = link_domain(ad.link);
+    const blocked_domain = domain === null
+      ? undefined
+      : rule.blocked_domains?.find(listed => on_domain(domain, listed));
+    if (blocked_domain !== undefined) {
+      return { reason: FilterReason.blocked_domain, match: blocked_domain, character_rule };
+    }
+    const category = rule.blocked_categories?.find(
+      category => CATEGORY_KEYWORDS[category].some(keyword => this._mentions(ad, keyword))
+    );
+    if (category !== undefined) {
+      return { reason: FilterReason.blocked_category, match: category, character_rule };
+    }
+    const keyword = rule.blocked_keywords?.find(keyword => this._mentions(ad, keyword));
+    if (keyword !== undefined) {
+      return { reason: FilterReason.blocked_keyword, match: keyword, character_rule };
+    }
+    return null;
+  }
+
+  private _check_allowlists(
+    ad: Ad,
+    rule: Pick<BrandSafetyRule, "allowed_domains" | "allowed_keywords">
+  ): FilterReason | null {
+    if (rule.allowed_domains?.length) {
+      const domain = link_domain(ad.link);
+      if (domain === null || !rule.allowed_domains.some(listed => on_domain(domain, listed))) {
+        return FilterReason.domain_not_allowed;
+      }
+    }
+    if (rule.allowed_keywords?.length && !rule.allowed_keywords.some(keyword => this._mentions(ad, keyword))) {
+      return FilterReason.keyword_not_allowed;
+    }
+    return null;
+  }
+
+  private _mentions(ad: Ad, keyword: string): boolean {
+    let pattern = this._patterns.get(keyword);
+    if (!pattern) {
+      pattern = keyword_pattern(keyword);
+      this._patterns.set(keyword, pattern);
+    }
+    return pattern.test(ad.ad_title) || pattern.test(ad.ad_description) || pattern.test(ad.placement_template);
+  }
+}
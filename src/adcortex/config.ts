@@ -0,0 +1,525 @@
+/**
+ * Client configuration for ADCortex API clients.
+ *
+ * This module is the single place where client defaults are defined. Both
+ * AdcortexChatClient and AsyncAdcortexChatClient resolve their constructor
+ * arguments through resolve_client_options.
+ */
+
+import { z } from 'zod';
+
+import { DEFAULT_RETRY_SETTINGS, FetchTransport, Transport } from './transport.js';
+import { ConsoleLogger, Logger, LogLevel, NoopLogger } from './logger.js';
+import { AdcortexError } from './errors.js';
+import { AdSelector, FirstAdSelector } from './selection.js';
+import { ContextTemplate, DEFAULT_CONTEXT_TEMPLATE, EscapeMode } from './templating.js';
+import { HistoryMode, MessageSummarizer, TokenEstimator } from './windowing.js';
+import { FunctionRedactor, PatternRedactor, PiiType, Redactor } from './pii.js';
+import { UserDataTreatment } from './privacy.js';
+import { AdCategory, FilteredAd } from './brand_safety.js';
+import { PacingStore } from './pacing.js';
+import { StateStore } from './persistence.js';
+import { CircuitBreakerRegistry } from './state.js';
+
+export { DEFAULT_CONTEXT_TEMPLATE };
+
+/**
+ * Default API base URL. Overridden by the ADCORTEX_BASE_URL environment variable.
+ */
+export const DEFAULT_BASE_URL = "https://adcortex.3102labs.com";
+
+/**
+ * Default API version path. Overridden by the ADCORTEX_API_PATH environment variable.
+ */
+export const DEFAULT_API_PATH = "/ads/matchv2";
+
+/**
+ * Default ad matching endpoint.
+ */
+export const DEFAULT_ENDPOINT_URL = join_url(DEFAULT_BASE_URL, DEFAULT_API_PATH);
+
+/**
+ * Default path of the impression and click tracking endpoint.
+ */
+export const DEFAULT_TRACKING_PATH = "/ads/events";
+
+/**
+ * Default request timeout in seconds.
+ */
+export const DEFAULT_TIMEOUT = 5;
+
+/**
+ * How __call__ waits for the ad request it triggers.
+ *
+ * Attributes:
+ *     await: __call__ resolves once the ad request has completed, so latest_ad is up to date.
+ *     background: __call__ resolves as soon as the message is queued; the request runs in the
+ *         background and failures are only reported through logs, events and on_error.
+ *     prefetch: Like background, but a user message queued while a request is in flight starts
+ *         another request as soon as that one completes, instead of waiting for the next user
+ *         message. Pair it with await_ad.
+ */
+export enum ProcessingMode {
+  await = "await",
+  background = "background",
+  prefetch = "prefetch"
+}
+
+/**
+ * Retry policy applied by the default transport.
+ *
+ * Attributes:
+ *     retries (number): Number of retries after the first attempt, so at most retries + 1
+ *         attempts are made. Defaults to 3.
+ *     base_delay (number): Base of the exponential backoff in milliseconds. Defaults to 100.
+ *     max_delay (number): Upper bound of the backoff in milliseconds. Defaults to 5000.
+ *     jitter (number): Fraction of the backoff added at random, between 0 and 1. Defaults to 0.2.
+ *     retry_on_status (number[]): HTTP statuses that are retried.
+ *         Defaults to 408, 429, 500, 502, 503 and 504.
+ *     retry_on_network (boolean): Whether timeouts and network errors are retried. Defaults to true.
+ *     respect_retry_after (boolean): Whether a Retry-After header replaces the backoff. Defaults to true.
+ *     max_retry_after (number): Longest Retry-After in seconds worth waiting for; the request
+ *         fails instead of waiting longer. Defaults to 30.
+ *     deadline (number): Seconds an ad request may take, retries included. Unlike the rest of
+ *         the policy it applies to every transport that honours TransportRequest.deadline.
+ *         Defaults to none.
+ */
+export const RetryPolicySchema = z.object({
+  retries: z.number().int().min(0).default(DEFAULT_RETRY_SETTINGS.retries),
+  base_delay: z.number().min(0).default(DEFAULT_RETRY_SETTINGS.base_delay),
+  max_delay: z.number().min(0).default(DEFAULT_RETRY_SETTINGS.max_delay),
+  jitter: z.number().min(0).max(1).default(DEFAULT_RETRY_SETTINGS.jitter),
+  retry_on_status: z.array(z.number().int()).default(DEFAULT_RETRY_SETTINGS.retry_on_status),
+  retry_on_network: z.boolean().default(DEFAULT_RETRY_SETTINGS.retry_on_network),
+  respect_retry_after: z.boolean().default(DEFAULT_RETRY_SETTINGS.respect_retry_after),
+  max_retry_after: z.number().min(0).default(DEFAULT_RETRY_SETTINGS.max_retry_after),
+  deadline: z.number().positive().optional()
+});
+
+export type RetryPolicy = z.infer<typeof RetryPolicySchema>;
+
+/**
+ * Impression and click tracking settings.
+ *
+ * Attributes:
+ *     url (string): Full tracking URL. Defaults to each base URL joined with path.
+ *     path (string): Tracking path appended to the base URLs. Defaults to DEFAULT_TRACKING_PATH.
+ *     batch_size (number): Pending events that trigger an immediate flush. Defaults to 20.
+ *     flush_interval (number): Seconds after the first pending event before a flush. Defaults to 5.
+ *     max_pending (number): Maximum buffered events; the oldest are dropped beyond it. Defaults to 1000.
+ */
+export const TrackingOptionsSchema = z.object({
+  url: z.string().url().optional(),
+  path: z.string().default(DEFAULT_TRACKING_PATH),
+  batch_size: z.number().int().positive().default(20),
+  flush_interval: z.number().positive().default(5),
+  max_pending: z.number().int().positive().default(1000)
+});
+
+export type TrackingOptions = z.infer<typeof TrackingOptionsSchema>;
+
+/**
+ * Conversation history settings, deciding which messages are sent with each ad request.
+ *
+ * Attributes:
+ *     mode (HistoryMode): delta sends only messages the server has not seen; window sends the
+ *         recent conversation. Defaults to delta.
+ *     max_turns (number): Maximum number of messages per request.
+ *     max_chars (number): Maximum total characters of the messages per request.
+ *     max_tokens (number): Maximum total estimated tokens of the messages per request.
+ *     keep_first_user_message (boolean): Always include the first user message of the
+ *         conversation. Defaults to false.
+ *     max_message_chars (number): Messages longer than this are summarized or truncated.
+ *     summarize (MessageSummarizer): Shortens long messages. Defaults to truncation.
+ *     token_estimator (TokenEstimator): Token counting for max_tokens. Defaults to about four
+ *         characters per token.
+ */
+export const HistoryOptionsSchema = z.object({
+  mode: z.nativeEnum(HistoryMode).default(HistoryMode.delta),
+  max_turns: z.number().int().positive().optional(),
+  max_chars: z.number().int().positive().optional(),
+  max_tokens: z.number().int().positive().optional(),
+  keep_first_user_message: z.boolean().default(false),
+  max_message_chars: z.number().int().positive().optional(),
+  summarize: z.custom<MessageSummarizer>(
+    val => typeof val === "function",
+    { message: "summarize must be a function" }
+  ).optional(),
+  token_estimator: z.custom<TokenEstimator>(
+    val => typeof val === "function",
+    { message: "token_estimator must be a function" }
+  ).optional()
+});
+
+export type HistoryOptions = z.infer<typeof HistoryOptionsSchema>;
+
+/**
+ * PII redaction applied to message content before it is sent.
+ *
+ * Attributes:
+ *     enabled (boolean): Whether messages are redacted. Defaults to false.
+ *     detectors (PiiType[]): Built-in detectors to run. Defaults to all of them.
+ *     redactors (Redactor[]): Custom pattern or function redactors, run after the built-in ones.
+ */
+export const PiiOptionsSchema = z.object({
+  enabled: z.boolean().default(false),
+  detectors: z.array(z.nativeEnum(PiiType)).default(Object.values(PiiType)),
+  redactors: z.array(z.custom<Redactor>(
+    val => typeof val === "object" && val !== null && typeof (val as Redactor).name === "string"
+      && ((val as PatternRedactor).pattern instanceof RegExp || typeof (val as FunctionRedactor).redact === "function"),
+    { message: "redactors must have a name and either a pattern or a redact function" }
+  )).default([])
+});
+
+export type PiiOptions = z.infer<typeof PiiOptionsSchema>;
+
+/**
+ * Privacy mode and age gating, applied to the user data of ad requests.
+ *
+ * Privacy mode is used when always_private is set, or when the session's consent withholds
+ * ads_personalization or data_sharing, or marks the user as a minor.
+ *
+ * Attributes:
+ *     always_private (boolean): Use privacy mode for every user. Defaults to false.
+ *     treatment (UserDataTreatment): How user_data is reduced in privacy mode. Defaults to coarsen.
+ *     min_age (number): Users younger than this never get ad requests. Defaults to 13.
+ */
+export const PrivacyOptionsSchema = z.object({
+  always_private: z.boolean().default(false),
+  treatment: z.nativeEnum(UserDataTreatment).default(UserDataTreatment.coarsen),
+  min_age: z.number().int().min(0).default(13)
+});
+
+export type PrivacyOptions = z.infer<typeof PrivacyOptionsSchema>;
+
+/**
+ * Brand-safety blocklists and allowlists, see BrandSafetyRule.
+ *
+ * Attributes:
+ *     blocked_categories (AdCategory[]): Categories whose keywords block an ad.
+ *     blocked_domains (string[]): Link domains that block an ad, including their subdomains.
+ *     allowed_domains (string[]): When set, only ads linking to these domains are allowed.
+ *     blocked_keywords (string[]): Words or phrases in the title or description that block an ad.
+ *     allowed_keywords (string[]): When set, only ads mentioning one of these are allowed.
+ */
+export const BrandSafetyRuleSchema = z.object({
+  blocked_categories: z.array(z.nativeEnum(AdCategory)).optional(),
+  blocked_domains: z.array(z.string().min(1)).optional(),
+  allowed_domains: z.array(z.string().min(1)).optional(),
+  blocked_keywords: z.array(z.string().trim().min(1)).optional(),
+  allowed_keywords: z.array(z.string().trim().min(1)).optional()
+});
+
+/**
+ * Client-side brand-safety filtering of returned ads. Filtered ads never become latest_ad
+ * and are not in latest_ads.
+ *
+ * The fields of BrandSafetyRuleSchema form the global rule, applied for every character.
+ *
+ * Attributes:
+ *     characters (Record<string, BrandSafetyRule>): Rules per character_name. Their blocklists
+ *         add to the global ones, their allowlists replace the global ones.
+ *     on_filtered ((filtered: FilteredAd) => void): Called with every filtered ad, for auditing.
+ */
+export const BrandSafetyOptionsSchema = BrandSafetyRuleSchema.extend({
+  characters: z.record(BrandSafetyRuleSchema).default({}),
+  on_filtered: z.custom<(filtered: FilteredAd) => void>(
+    val => typeof val === "function",
+    { message: "on_filtered must be a function" }
+  ).optional()
+});
+
+export type BrandSafetyOptions = z.infer<typeof BrandSafetyOptionsSchema>;
+
+/**
+ * Frequency capping and pacing. While a limit is reached, user messages trigger no ad request
+ * and latest_ad is cleared. An ad counts as shown when get_latest_ad returns it or it is
+ * passed to mark_ad_shown.
+ *
+ * Attributes:
+ *     min_turns_between_ads (number): User turns required after an ad is shown before the next request.
+ *     max_ads_per_session (number): Maximum ads shown per session.
+ *     max_ads_per_user (number): Maximum ads shown per user_id within user_window.
+ *     user_window (number): Window of max_ads_per_user in seconds. Defaults to 86400 (one day).
+ *     cooldown (number): Seconds after an ad is shown to the user before the next request.
+ *     store (PacingStore): Where pacing state is kept. Defaults to an InMemoryPacingStore per client.
+ */
+export const PacingOptionsSchema = z.object({
+  min_turns_between_ads: z.number().int().positive().optional(),
+  max_ads_per_session: z.number().int().min(0).optional(),
+  max_ads_per_user: z.number().int().min(0).optional(),
+  user_window: z.number().positive().default(86400),
+  cooldown: z.number().positive().optional(),
+  store: z.custom<PacingStore>(
+    val => typeof val === "object" && val !== null
+      && typeof (val as PacingStore).get === "function" && typeof (val as PacingStore).set === "function",
+    { message: "store must implement get(key) and set(key, state)" }
+  ).optional()
+});
+
+export type PacingOptions = z.infer<typeof PacingOptionsSchema>;
+
+/**
+ * Circuit breaker settings beyond circuit_breaker_threshold and circuit_breaker_timeout.
+ *
+ * Clients keep one breaker per endpoint. By default the breakers are private to the client;
+ * with shared or a registry they are shared with every client using the same registry.
+ *
+ * Attributes:
+ *     failure_rate (number): Share of failed requests in the window, between 0 and 1, at or above
+ *         which the breaker opens once circuit_breaker_threshold failures are reached. Defaults to 0.5.
+ *     window (number): Length of the sliding failure window in seconds. Defaults to 60.
+ *     half_open_probes (number): Probe requests admitted after circuit_breaker_timeout; all must
+ *         succeed to close the breaker. Defaults to 1.
+ *     shared (boolean): Use the process-wide SHARED_BREAKER_REGISTRY. Defaults to false.
+ *     registry (CircuitBreakerRegistry): Registry to share breakers through. Takes precedence over shared.
+ */
+export const CircuitBreakerOptionsSchema = z.object({
+  failure_rate: z.number().min(0).max(1).default(0.5),
+  window: z.number().positive().default(60),
+  half_open_probes: z.number().int().positive().default(1),
+  shared: z.boolean().default(false),
+  registry: z.instanceof(CircuitBreakerRegistry).optional()
+});
+
+export type CircuitBreakerOptions = z.infer<typeof CircuitBreakerOptionsSchema>;
+
+/**
+ * Options accepted by the chat client constructors.
+ *
+ * Attributes:
+ *     context_template (string | BuiltinTemplate): Template text or built-in template name for
+ *         create_context. Validated at construction. Defaults to DEFAULT_CONTEXT_TEMPLATE.
+ *     context_escape (EscapeMode): Escaping applied to values inserted by the template. Defaults to none.
+ *     api_key (string | null): AdCortex API key. Defaults to the ADCORTEX_API_KEY environment variable.
+ *     base_url (string | string[]): API base URL, or an ordered list of base URLs to fail over
+ *         across. Defaults to ADCORTEX_BASE_URL (comma-separated) or DEFAULT_BASE_URL.
+ *     api_path (string): API version path appended to every base URL. Defaults to
+ *         ADCORTEX_API_PATH or DEFAULT_API_PATH.
+ *     endpoint_url (string): Full ad matching URL. Takes precedence over base_url and api_path.
+ *     failover_threshold (number): Consecutive failures before switching to the next base URL. Defaults to 3.
+ *     timeout (number): Per-request timeout in seconds. Defaults to DEFAULT_TIMEOUT.
+ *     disable_logging (boolean): Whether to disable logging. Defaults to false.
+ *     log_level (LogLevel): Minimum level written by the default ConsoleLogger. Defaults to info.
+ *     logger (Logger): Custom logger. Defaults to a ConsoleLogger at log_level.
+ *     max_queue_size (number): Maximum number of messages in the queue, and of sent messages
+ *         kept for the window history mode. Defaults to 100.
+ *     history (HistoryOptions): Which messages are sent with each ad request.
+ *     pii (PiiOptions): Redaction of personal data in message content.
+ *     privacy (PrivacyOptions): Privacy mode and minimum age for ad requests.
+ *     brand_safety (BrandSafetyOptions): Filtering of returned ads by domain, keyword and category.
+ *     pacing (PacingOptions): Frequency capping and pacing of ads per session and per user.
+ *     circuit_breaker_threshold (number): Failures within the window before the circuit breaker
+ *         opens. Defaults to 5.
+ *     circuit_breaker_timeout (number): Seconds before an open circuit breaker admits probe
+ *         requests. Defaults to 120.
+ *     circuit_breaker (CircuitBreakerOptions): Failure rate, window, probes and sharing of breakers.
+ *     ad_selector (AdSelector): Strategy choosing latest_ad among the returned candidates.
+ *         Defaults to FirstAdSelector.
+ *     on_error ((error: AdcortexError) => void): Called with every failure, including requests
+ *         skipped because the circuit breaker is open.
+ *     throw_on_error (boolean): Whether __call__ rethrows failures instead of only logging them.
+ *         Failures of background requests are never rethrown. Defaults to false.
+ *     processing_mode (ProcessingMode): Whether __call__ waits for the ad request. Defaults to await.
+ *     tracking (TrackingOptions): Impression and click tracking settings.
+ *     retry (RetryPolicy): Retry policy for the default transport. Only its deadline applies
+ *         when a transport is given.
+ *     transport (Transport): HTTP transport. Defaults to a FetchTransport built from the retry policy.
+ *     state_store (StateStore): Where the session state is saved after every change, see restore.
+ *         Defaults to none, keeping state in instance memory only.
+ */
+export const AdcortexClientOptionsSchema = z.object({
+  context_template: z.string().default(DEFAULT_CONTEXT_TEMPLATE),
+  context_escape: z.nativeEnum(EscapeMode).default(EscapeMode.none),
+  api_key: z.string().nullish(),
+  base_url: z.union([z.string().url(), z.array(z.string().url()).nonempty()]).optional(),
+  api_path: z.string().optional(),
+  endpoint_url: z.string().url().optional(),
+  failover_threshold: z.number().int().positive().default(3),
+  timeout: z.number().positive().default(DEFAULT_TIMEOUT),
+  disable_logging: z.boolean().default(false),
+  log_level: z.nativeEnum(LogLevel).default(LogLevel.info),
+  logger: z.custom<Logger>(
+    val => typeof val === "object" && val !== null
+      && ["debug", "info", "warn", "error"].every(level => typeof (val as Record<string, unknown>)[level] === "function"),
+    { message: "logger must implement debug, info, warn and error" }
+  ).optional(),
+  max_queue_size: z.number().int().positive().default(100),
+  history: HistoryOptionsSchema.default({}),
+  pii: PiiOptionsSchema.default({}),
+  privacy: PrivacyOptionsSchema.default({}),
+  brand_safety: BrandSafetyOptionsSchema.default({}),
+  pacing: PacingOptionsSchema.default({}),
+  circuit_breaker_threshold: z.number().int().positive().default(5),
+  circuit_breaker_timeout: z.number().positive().default(120), // 2 minutes
+  circuit_breaker: CircuitBreakerOptionsSchema.default({}),
+  ad_selector: z.custom<AdSelector>(
+    val => typeof val === "object" && val !== null && typeof (val as AdSelector).select === "function",
+    { message: "ad_selector must implement select(candidates, context)" }
+  ).optional(),
+  on_error: z.custom<(error: AdcortexError) => void>(
+    val => typeof val === "function",
+    { message: "on_error must be a function" }
+  ).optional(),
+  throw_on_error: z.boolean().default(false),
+  processing_mode: z.nativeEnum(ProcessingMode).default(ProcessingMode.await),
+  tracking: TrackingOptionsSchema.default({}),
+  retry: RetryPolicySchema.default({}),
+  transport: z.custom<Transport>(
+    val => typeof val === "object" && val !== null && typeof (val as Transport).post === "function",
+    { message: "transport must implement post(request)" }
+  ).optional(),
+  state_store: z.custom<StateStore>(
+    val => typeof val === "object" && val !== null
+      && ["get", "set", "delete"].every(method => typeof (val as Record<string, unknown>)[method] === "function"),
+    { message: "state_store must implement get, set and delete" }
+  ).optional()
+});
+
+export type AdcortexClientOptions = z.input<typeof AdcortexClientOptionsSchema>;
+
+/**
+ * Fully resolved client configuration.
+ */
+export interface ResolvedClientOptions {
+  context_template: ContextTemplate;
+  api_key: string;
+  endpoints: string[];
+  failover_threshold: number;
+  timeout: number;
+  logger: Logger;
+  max_queue_size: number;
+  history: HistoryOptions;
+  pii: PiiOptions;
+  privacy: PrivacyOptions;
+  brand_safety: BrandSafetyOptions;
+  pacing: PacingOptions;
+  circuit_breaker_threshold: number;
+  circuit_breaker_timeout: number;
+  circuit_breaker: CircuitBreakerOptions;
+  ad_selector: AdSelector;
+  on_error?: (error: AdcortexError) => void;
+  throw_on_error: boolean;
+  processing_mode: ProcessingMode;
+  tracking: TrackingOptions & { endpoints: string[] };
+  retry: RetryPolicy;
+  transport: Transport;
+  state_store?: StateStore;
+}
+
+/**
+ * Positional constructor arguments, kept for backwards compatibility.
+ *
+ * @deprecated Pass an AdcortexClientOptions object instead.
+ */
+export type PositionalClientArgs = [
+  context_template?: string | null,
+  api_key?: string | null,
+  timeout?: number | null,
+  disable_logging?: boolean | null,
+  max_queue_size?: number | null,
+  circuit_breaker_threshold?: number | null,
+  circuit_breaker_timeout?: number | null,
+  transport?: Transport | null
+];
+
+/**
+ * Join a base URL and a path with exactly one slash between them.
+ */
+export function join_url(base_url: string, path: string): string {
+  if (!path) {
+    return base_url;
+  }
+  return `${base_url.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+}
+
+function read_env(name: string): string | undefined {
+  // `process` is not defined on every edge runtime
+  return typeof process !== "undefined" ? process.env[name] : undefined;
+}
+
+function resolve_base_urls(options: z.output<typeof AdcortexClientOptionsSchema>): string[] {
+  if (options.endpoint_url) {
+    return [new URL(options.endpoint_url).origin];
+  }
+  const env_base_url = read_env("ADCORTEX_BASE_URL");
+  const base_urls = options.base_url
+    ?? (env_base_url ? env_base_url.split(",").map(url => url.trim()).filter(Boolean) : [DEFAULT_BASE_URL]);
+  return Array.isArray(base_urls) ? base_urls : [base_urls];
+}
+
+function resolve_endpoints(options: z.output<typeof AdcortexClientOptionsSchema>): string[] {
+  if (options.endpoint_url) {
+    return [options.endpoint_url];
+  }
+  const api_path = options.api_path ?? read_env("ADCORTEX_API_PATH") ?? DEFAULT_API_PATH;
+  return resolve_base_urls(options).map(base_url => join_url(base_url, api_path));
+}
+
+function resolve_tracking_endpoints(options: z.output<typeof AdcortexClientOptionsSchema>): string[] {
+  if (options.tracking.url) {
+    return [options.tracking.url];
+  }
+  return resolve_base_urls(options).map(base_url => join_url(base_url, options.tracking.path));
+}
+
+function positional_to_options(args: PositionalClientArgs): AdcortexClientOptions {
+  const [
+    context_template,
+    api_key,
+    timeout,
+    disable_logging,
+    max_queue_size,
+    circuit_breaker_threshold,
+    circuit_breaker_timeout,
+    transport
+  ] = args;
+  return {
+    context_template: context_template ?? undefined,
+    api_key: api_key ?? undefined,
+    timeout: timeout ?? undefined,
+    disable_logging: disable_logging ?? undefined,
+    max_queue_size: max_queue_size ?? undefined,
+    circuit_breaker_threshold: circuit_breaker_threshold ?? undefined,
+    circuit_breaker_timeout: circuit_breaker_timeout ?? undefined,
+    transport: transport ?? undefined
+  };
+}
+
+/**
+ * Resolve constructor arguments into a validated configuration.
+ *
+ * @param args - Either a single AdcortexClientOptions object or the deprecated positional arguments
+ * @param logger_name - Name of the default ConsoleLogger
+ * @throws ZodError if the options are invalid
+ * @throws AdcortexTemplateError if the context template is invalid
+ * @throws Error if no API key is provided or set in the environment
+ */
+export function resolve_client_options(
+  args: [AdcortexClientOptions?] | PositionalClientArgs,
+  logger_name: string = "chat_client"
+): ResolvedClientOptions {
+  const first = args[0];
+  const raw = args.length <= 1 && typeof first === "object" && first !== null
+    ? first
+    : positional_to_options(args as PositionalClientArgs);
+  const parsed = AdcortexClientOptionsSchema.parse(raw);
+
+  const api_key = parsed.api_key || read_env("ADCORTEX_API_KEY") || "";
+  if (!api_key) {
+    throw new Error("ADCORTEX_API_KEY is not set and not provided");
+  }
+
+  return {
+    ...parsed,
+    context_template: new ContextTemplate(parsed.context_template, parsed.context_escape),
+    api_key,
+    endpoints: resolve_endpoints(parsed),
+    tracking: { ...parsed.tracking, endpoints: resolve_tracking_endpoints(parsed) },
+    ad_selector: parsed.ad_selector ?? new FirstAdSelector(),
+    logger: parsed.disable_logging
+      ? new NoopLogger()
+      : parsed.logger ?? new ConsoleLogger(logger_name, parsed.log_level),
+    transport: parsed.transport ?? new FetchTransport(parsed.retry)
+  };
+}
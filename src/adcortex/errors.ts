@@ -0,0 +1,179 @@
+/**
+ * Error hierarchy for ADCortex API clients.
+ *
+ * Every failure surfaced by a client is an AdcortexError carrying the RGUID of
+ * the request (when one was sent) and the HTTP status (when one was received).
+ */
+
+import { ZodError } from 'zod';
+
+import { TransportError, parse_retry_after } from './transport.js';
+
+/**
+ * Base class for all errors raised by the SDK.
+ */
+export class AdcortexError extends Error {
+  public readonly rguid: string | null;
+  public readonly status: number | null;
+  public readonly cause: unknown;
+
+  /**
+   * @param message - Human readable description
+   * @param rguid - RGUID of the failed request, if one was sent
+   * @param status - HTTP status of the response, if one was received
+   * @param cause - Underlying error
+   */
+  constructor(message: string, rguid: string | null = null, status: number | null = null, cause: unknown = undefined) {
+    super(message);
+    this.name = "AdcortexError";
+    this.rguid = rguid;
+    this.status = status;
+    this.cause = cause;
+  }
+}
+
+/**
+ * The API rejected the API key (HTTP 401 or 403).
+ */
+export class AdcortexAuthError extends AdcortexError {
+  constructor(message: string, rguid: string | null = null, status: number | null = null, cause: unknown = undefined) {
+    super(message, rguid, status, cause);
+    this.name = "AdcortexAuthError";
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout.
+ */
+export class AdcortexTimeoutError extends AdcortexError {
+  constructor(message: string, rguid: string | null = null, status: number | null = null, cause: unknown = undefined) {
+    super(message, rguid, status, cause);
+    this.name = "AdcortexTimeoutError";
+  }
+}
+
+/**
+ * The request was cancelled through the AbortSignal or deadline of the call.
+ */
+export class AdcortexAbortError extends AdcortexError {
+  constructor(message: string, rguid: string | null = null, status: number | null = null, cause: unknown = undefined) {
+    super(message, rguid, status, cause);
+    this.name = "AdcortexAbortError";
+  }
+}
+
+/**
+ * The API rate limited the client (HTTP 429).
+ */
+export class AdcortexRateLimitError extends AdcortexError {
+  public readonly retry_after: number | null;
+
+  /**
+   * @param retry_after - Seconds to wait before retrying, from the Retry-After header
+   */
+  constructor(message: string, rguid: string | null = null, status: number | null = null, cause: unknown = undefined, retry_after: number | null = null) {
+    super(message, rguid, status, cause);
+    this.name = "AdcortexRateLimitError";
+    this.retry_after = retry_after;
+  }
+}
+
+/**
+ * The API could not be reached (DNS, connection refused, reset, ...).
+ */
+export class AdcortexNetworkError extends AdcortexError {
+  constructor(message: string, rguid: string | null = null, status: number | null = null, cause: unknown = undefined) {
+    super(message, rguid, status, cause);
+    this.name = "AdcortexNetworkError";
+  }
+}
+
+/**
+ * The API answered with an unexpected HTTP status.
+ */
+export class AdcortexHttpError extends AdcortexError {
+  constructor(message: string, rguid: string | null = null, status: number | null = null, cause: unknown = undefined) {
+    super(message, rguid, status, cause);
+    this.name = "AdcortexHttpError";
+  }
+}
+
+/**
+ * The API response did not match AdResponseSchema.
+ */
+export class AdcortexResponseValidationError extends AdcortexError {
+  public readonly issues: ZodError["issues"];
+
+  constructor(message: string, rguid: string | null = null, status: number | null = null, cause: unknown = undefined) {
+    super(message, rguid, status, cause);
+    this.name = "AdcortexResponseValidationError";
+    this.issues = cause instanceof ZodError ? cause.issues : [];
+  }
+}
+
+/**
+ * The circuit breaker is open, so no request was sent.
+ */
+export class CircuitOpenError extends AdcortexError {
+  constructor(message: string = "Circuit breaker is open", rguid: string | null = null, status: number | null = null, cause: unknown = undefined) {
+    super(message, rguid, status, cause);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * A context template could not be parsed.
+ */
+export class AdcortexTemplateError extends AdcortexError {
+  public readonly template: string;
+  public readonly position: number;
+
+  /**
+   * @param message - Human readable description
+   * @param template - The template source
+   * @param position - Offset of the offending token in the template
+   */
+  constructor(message: string, template: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = "AdcortexTemplateError";
+    this.template = template;
+    this.position = position;
+  }
+}
+
+/**
+ * Convert any error thrown while fetching an ad into an AdcortexError.
+ *
+ * @param error - The caught error
+ * @param rguid - RGUID of the request that failed
+ */
+export function to_adcortex_error(error: unknown, rguid: string | null = null): AdcortexError {
+  if (error instanceof AdcortexError) {
+    return error;
+  }
+  if (error instanceof TransportError) {
+    const status = error.status;
+    if (error.code === "TIMEOUT") {
+      return new AdcortexTimeoutError(error.message, rguid, status, error);
+    }
+    if (error.code === "ABORTED") {
+      return new AdcortexAbortError(error.message, rguid, status, error);
+    }
+    if (error.code === "NETWORK") {
+      return new AdcortexNetworkError(error.message, rguid, status, error);
+    }
+    if (status === 401 || status === 403) {
+      return new AdcortexAuthError(error.message, rguid, status, error);
+    }
+    if (status === 429) {
+      const retry_after = parse_retry_after(error.response?.headers["retry-after"]);
+      return new AdcortexRateLimitError(error.message, rguid, status, error, retry_after);
+    }
+    return new AdcortexHttpError(error.message, rguid, status, error);
+  }
+  if (error instanceof ZodError) {
+    return new AdcortexResponseValidationError(`Invalid ad response format: ${error.message}`, rguid, null, error);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new AdcortexError(message, rguid, null, error);
+}
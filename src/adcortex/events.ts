@@ -0,0 +1,156 @@
+/**
+ * Typed lifecycle events for ADCortex API clients.
+ *
+ * A minimal emitter with no runtime dependencies, so it works on Node,
+ * browsers and edge runtimes alike.
+ */
+
+import { Ad, Message } from './types.js';
+import { AdcortexError } from './errors.js';
+import { RedactionReport } from './pii.js';
+import { FilterReason } from './brand_safety.js';
+import { PacingReason } from './pacing.js';
+
+/**
+ * Payloads of the events emitted by the chat clients.
+ *
+ * Attributes:
+ *     message_queued: A message was added to the queue.
+ *     message_dropped: The queue was full and its oldest message was evicted.
+ *     pii_redacted: Messages were scrubbed for an ad request; sent for every request while PII
+ *         redaction is enabled, even when nothing was found.
+ *     ad_capped: An ad request was skipped because a pacing limit is reached.
+ *     request_started: An ad request is about to be sent.
+ *     ad_filtered: A returned ad was removed by the brand-safety rules.
+ *     ad_received: The API returned ads and one was selected; candidates holds all of them
+ *         that passed the brand-safety rules.
+ *     no_ad: The API answered successfully without an ad, every ad was filtered, or the
+ *         selector picked none.
+ *     request_failed: An ad request failed.
+ *     request_aborted: An ad request was cancelled through the signal or deadline of its call.
+ *     session_updated: The user info, platform or character changed; reset tells whether the queue,
+ *         history and pending ads were cleared.
+ *     circuit_opened: The circuit breaker of the endpoint opened after too many errors, or after
+ *         a failed probe.
+ *     circuit_half_opened: The circuit breaker's timeout passed and it admits probe requests.
+ *     circuit_closed: The circuit breaker closed again after successful probes.
+ *
+ * Circuit events are emitted by the client whose request or check caused the transition, which
+ * matters when breakers are shared between clients.
+ */
+export interface AdcortexEventMap {
+  message_queued: { session_id: string; message: Message; queue_size: number };
+  message_dropped: { session_id: string; message: Message; queue_size: number };
+  pii_redacted: { session_id: string; rguid: string; report: RedactionReport };
+  ad_capped: { session_id: string; reason: PacingReason };
+  request_started: { session_id: string; rguid: string; endpoint: string; batch_size: number };
+  ad_filtered: { session_id: string; rguid: string; ad: Ad; reason: FilterReason; match: string | null };
+  ad_received: { session_id: string; rguid: string; ad: Ad; candidates: Ad[]; latency_ms: number };
+  no_ad: { session_id: string; rguid: string; latency_ms: number };
+  request_failed: { session_id: string; rguid: string | null; error: AdcortexError };
+  request_aborted: { session_id: string; rguid: string | null };
+  session_updated: { session_id: string; field: "user_info" | "platform" | "character"; reset: boolean };
+  circuit_opened: { session_id: string; error_count: number; reset_time: Date };
+  circuit_half_opened: { session_id: string };
+  circuit_closed: { session_id: string };
+}
+
+export type AdcortexEventName = keyof AdcortexEventMap;
+
+export type EventListener<M, K extends keyof M> = (event: M[K]) => void;
+
+/**
+ * Minimal typed event emitter.
+ *
+ * Listener exceptions are caught and passed to the error handler so that a
+ * faulty listener never breaks the emitting client.
+ */
+export class TypedEventEmitter<M> {
+  private _listeners: Map<keyof M, Set<EventListener<M, any>>>;
+  private _once_wrappers: Map<keyof M, Map<EventListener<M, any>, EventListener<M, any>>>;
+  private _on_listener_error: (error: unknown, event: keyof M) => void;
+
+  /**
+   * @param on_listener_error - Called when a listener throws
+   */
+  constructor(on_listener_error: (error: unknown, event: keyof M) => void = () => {}) {
+    this._listeners = new Map();
+    this._once_wrappers = new Map();
+    this._on_listener_error = on_listener_error;
+  }
+
+  /**
+   * Subscribe to an event.
+   *
+   * @returns A function that removes the listener
+   */
+  public on<K extends keyof M>(event: K, listener: EventListener<M, K>): () => void {
+    let listeners = this._listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this._listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only.
+   */
+  public once<K extends keyof M>(event: K, listener: EventListener<M, K>): () => void {
+    let wrappers = this._once_wrappers.get(event);
+    if (!wrappers) {
+      wrappers = new Map();
+      this._once_wrappers.set(event, wrappers);
+    }
+    if (wrappers.has(listener)) {
+      return () => this.off(event, listener);
+    }
+    const wrapper: EventListener<M, K> = payload => {
+      this.off(event, listener);
+      listener(payload);
+    };
+    // Kept so that off() with the original listener removes the wrapper
+    wrappers.set(listener, wrapper);
+    this.on(event, wrapper);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener, whether it was added with on or once.
+   */
+  public off<K extends keyof M>(event: K, listener: EventListener<M, K>): void {
+    const listeners = this._listeners.get(event);
+    listeners?.delete(listener);
+    const wrappers = this._once_wrappers.get(event);
+    const wrapper = wrappers?.get(listener);
+    if (wrapper) {
+      wrappers!.delete(listener);
+      listeners?.delete(wrapper);
+    }
+  }
+
+  /**
+   * Call every listener of an event with the payload.
+   */
+  public emit<K extends keyof M>(event: K, payload: M[K]): void {
+    const listeners = this._listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of [...listeners]) {
+      try {
+        listener(payload);
+      } catch (e) {
+        this._on_listener_error(e, event);
+      }
+    }
+  }
+
+  /**
+   * Number of listeners subscribed to an event.
+   */
+  public listener_count(event: keyof M): number {
+    return this._listeners.get(event)?.size ?? 0;
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * File-based state store for Node.
+ */
+
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { v4 as uuidv4 } from 'uuid';
+
+import { StateStore } from './persistence.js';
+
+/**
+ * State store keeping one JSON file per key in a directory.
+ *
+ * Writes go to a temporary file that is then renamed, so a crash never leaves a
+ * half-written state behind. Suited to a single machine; use KeyValueStateStore
+ * to share state between machines.
+ */
+export class FileStateStore implements StateStore {
+  private _directory: string;
+
+  /**
+   * @param directory - Directory of the state files, created on the first write
+   */
+  constructor(directory: string) {
+    this._directory = directory;
+  }
+
+  public async get(key: string): Promise<unknown> {
+    let content: string;
+    try {
+      content = await readFile(this._path(key), "utf8");
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw e;
+    }
+    return JSON.parse(content);
+  }
+
+  public async set(key: string, value: unknown): Promise<void> {
+    await mkdir(this._directory, { recursive: true });
+    const path = this._path(key);
+    const temporary = `${path}.${uuidv4()}.tmp`;
+    await writeFile(temporary, JSON.stringify(value), "utf8");
+    await rename(temporary, path);
+  }
+
+  public async delete(key: string): Promise<void> {
+    await rm(this._path(key), { force: true });
+  }
+
+  private _path(key: string): string {
+    return join(this._directory, `${encodeURIComponent(key)}.json`);
+  }
+}
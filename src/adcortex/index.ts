@@ -4,16 +4,253 @@ dotenv.config();
 
 import { AdcortexChatClient } from './chat_client.js';
 import { AsyncAdcortexChatClient } from './async_chat_client.js';
-import { AdSchema, MessageSchema, SessionInfoSchema, Role, Gender, Language, Interest } from './types.js';
+import { BaseAdcortexChatClient } from './base_chat_client.js';
+import { AdSchema, AttachmentSchema, MessageSchema, SessionInfoSchema, ConsentSchema, Role, Gender, Language, Interest } from './types.js';
+import type { Attachment, Consent, MessageInput, PrivateUserData } from './types.js';
+import { DEFAULT_RETRY_SETTINGS, FetchTransport, InMemoryTransport, TransportError, post_with_retries } from './transport.js';
+import {
+    AdcortexClientOptionsSchema,
+    RetryPolicySchema,
+    TrackingOptionsSchema,
+    HistoryOptionsSchema,
+    PiiOptionsSchema,
+    PrivacyOptionsSchema,
+    BrandSafetyRuleSchema,
+    BrandSafetyOptionsSchema,
+    PacingOptionsSchema,
+    CircuitBreakerOptionsSchema,
+    DEFAULT_CONTEXT_TEMPLATE,
+    DEFAULT_TRACKING_PATH,
+    DEFAULT_BASE_URL,
+    DEFAULT_API_PATH,
+    DEFAULT_ENDPOINT_URL,
+    DEFAULT_TIMEOUT,
+    ProcessingMode
+} from './config.js';
+import type { AdcortexClientOptions, RetryPolicy, TrackingOptions, HistoryOptions, PiiOptions, PrivacyOptions, BrandSafetyOptions, PacingOptions, CircuitBreakerOptions } from './config.js';
+import { LogLevel, ConsoleLogger, JsonLogger, NoopLogger, redact_payload } from './logger.js';
+import type { Logger, LogFields } from './logger.js';
+import {
+    AdcortexError,
+    AdcortexAuthError,
+    AdcortexTimeoutError,
+    AdcortexRateLimitError,
+    AdcortexAbortError,
+    AdcortexNetworkError,
+    AdcortexHttpError,
+    AdcortexResponseValidationError,
+    CircuitOpenError,
+    AdcortexTemplateError
+} from './errors.js';
+import { TypedEventEmitter } from './events.js';
+import type { AdcortexEventMap, AdcortexEventName, EventListener } from './events.js';
+import type { AwaitAdOptions, CallOptions, StreamAdOptions, SwitchCharacterOptions } from './base_chat_client.js';
+import {
+    FirstAdSelector,
+    RandomAdSelector,
+    RoundRobinAdSelector,
+    ExcludeShownAdSelector,
+    ScoredAdSelector,
+    ad_key
+} from './selection.js';
+import type { AdSelector, AdScorer, SelectionContext } from './selection.js';
+import { TrackingEventType } from './tracking.js';
+import type { TrackingEvent } from './tracking.js';
+import { ContextTemplate, EscapeMode, BuiltinTemplate, BUILTIN_TEMPLATES, escape_value } from './templating.js';
+import type { TemplateValues } from './templating.js';
+import { InsertionPoint, chunk_text, inject_ad } from './streaming.js';
+import { anthropic_system_block, from_anthropic_messages, from_openai_messages, openai_system_message } from './message_formats.js';
+import type { AnthropicContentBlock, AnthropicMessage, MessageConversionOptions, OpenAIChatMessage, OpenAIContentPart } from './message_formats.js';
+import type { ChatCompletionChunk, StreamChunk, StreamPart, StreamInjectionOptions } from './streaming.js';
+import { ContextWindow, HistoryMode, estimate_tokens, truncate_content } from './windowing.js';
+import type { ContextWindowSettings, MessageSummarizer, TokenEstimator } from './windowing.js';
+import { PiiScrubber, PiiType, BUILTIN_REDACTORS, builtin_redactors, luhn_check, iban_check } from './pii.js';
+import type { Redactor, PatternRedactor, FunctionRedactor, RedactionResult, RedactionReport } from './pii.js';
+import { PrivacyPolicy, UserDataTreatment, age_range } from './privacy.js';
+import type { PrivacySettings } from './privacy.js';
+import { BrandSafetyFilter, AdCategory, CATEGORY_KEYWORDS, FilterReason, link_domain } from './brand_safety.js';
+import type { BrandSafetyRule, BrandSafetySettings, FilteredAd } from './brand_safety.js';
+import { AdPacer, InMemoryPacingStore, PacingReason } from './pacing.js';
+import type { PacingSettings, PacingState, PacingStore } from './pacing.js';
+import {
+    InMemoryStateStore,
+    KeyValueStateStore,
+    SessionStateSchema,
+    SESSION_STATE_VERSION,
+    session_state_key
+} from './persistence.js';
+import type { StateStore, KeyValueAdapter, SessionState } from './persistence.js';
+import { CircuitBreakerRegistry, CircuitState, SHARED_BREAKER_REGISTRY } from './state.js';
+import type { CircuitBreakerSettings, CircuitBreakerSnapshot, WindowBucket } from './state.js';
+import type { Transport, TransportRequest, TransportResponse, TransportErrorCode, InMemoryHandler, RetrySettings } from './transport.js';
+import { AxiosTransport } from './axios_transport.js';
+import { FileStateStore } from './file_state_store.js';
 
 export { 
     AdcortexChatClient, 
     AsyncAdcortexChatClient,
+    BaseAdcortexChatClient,
     AdSchema,
     MessageSchema, 
+    AttachmentSchema,
     SessionInfoSchema,
+    ConsentSchema,
     Role,
     Gender,
     Language,
-    Interest
-};
\ No newline at end of file
+    Interest,
+    FetchTransport,
+    InMemoryTransport,
+    AxiosTransport,
+    FileStateStore,
+    TransportError,
+    DEFAULT_RETRY_SETTINGS,
+    post_with_retries,
+    AdcortexClientOptionsSchema,
+    RetryPolicySchema,
+    DEFAULT_CONTEXT_TEMPLATE,
+    DEFAULT_BASE_URL,
+    DEFAULT_API_PATH,
+    DEFAULT_ENDPOINT_URL,
+    DEFAULT_TIMEOUT,
+    ProcessingMode,
+    LogLevel,
+    ConsoleLogger,
+    JsonLogger,
+    NoopLogger,
+    redact_payload,
+    AdcortexError,
+    AdcortexAuthError,
+    AdcortexTimeoutError,
+    AdcortexRateLimitError,
+    AdcortexAbortError,
+    AdcortexNetworkError,
+    AdcortexHttpError,
+    AdcortexResponseValidationError,
+    CircuitOpenError,
+    AdcortexTemplateError,
+    TypedEventEmitter,
+    FirstAdSelector,
+    RandomAdSelector,
+    RoundRobinAdSelector,
+    ExcludeShownAdSelector,
+    ScoredAdSelector,
+    ad_key,
+    TrackingEventType,
+    TrackingOptionsSchema,
+    HistoryOptionsSchema,
+    PiiOptionsSchema,
+    DEFAULT_TRACKING_PATH,
+    ContextTemplate,
+    EscapeMode,
+    BuiltinTemplate,
+    BUILTIN_TEMPLATES,
+    escape_value,
+    InsertionPoint,
+    chunk_text,
+    inject_ad,
+    from_openai_messages,
+    from_anthropic_messages,
+    openai_system_message,
+    anthropic_system_block,
+    HistoryMode,
+    ContextWindow,
+    estimate_tokens,
+    truncate_content,
+    PiiScrubber,
+    PiiType,
+    BUILTIN_REDACTORS,
+    builtin_redactors,
+    luhn_check,
+    iban_check,
+    PrivacyOptionsSchema,
+    PrivacyPolicy,
+    UserDataTreatment,
+    age_range,
+    BrandSafetyRuleSchema,
+    BrandSafetyOptionsSchema,
+    BrandSafetyFilter,
+    AdCategory,
+    CATEGORY_KEYWORDS,
+    FilterReason,
+    link_domain,
+    PacingOptionsSchema,
+    AdPacer,
+    InMemoryPacingStore,
+    PacingReason,
+    InMemoryStateStore,
+    KeyValueStateStore,
+    SessionStateSchema,
+    SESSION_STATE_VERSION,
+    session_state_key,
+    CircuitBreakerOptionsSchema,
+    CircuitBreakerRegistry,
+    CircuitState,
+    SHARED_BREAKER_REGISTRY
+};
+
+export type {
+    Transport,
+    TransportRequest,
+    TransportResponse,
+    TransportErrorCode,
+    RetrySettings,
+    InMemoryHandler,
+    AdcortexClientOptions,
+    RetryPolicy,
+    Logger,
+    LogFields,
+    AdcortexEventMap,
+    AdcortexEventName,
+    CallOptions,
+    AwaitAdOptions,
+    StreamAdOptions,
+    SwitchCharacterOptions,
+    EventListener,
+    AdSelector,
+    AdScorer,
+    SelectionContext,
+    TrackingEvent,
+    TrackingOptions,
+    TemplateValues,
+    ChatCompletionChunk,
+    StreamChunk,
+    StreamPart,
+    StreamInjectionOptions,
+    OpenAIChatMessage,
+    OpenAIContentPart,
+    AnthropicMessage,
+    AnthropicContentBlock,
+    MessageConversionOptions,
+    HistoryOptions,
+    ContextWindowSettings,
+    MessageSummarizer,
+    TokenEstimator,
+    PiiOptions,
+    Redactor,
+    PatternRedactor,
+    FunctionRedactor,
+    RedactionResult,
+    RedactionReport,
+    Consent,
+    Attachment,
+    MessageInput,
+    PrivateUserData,
+    PrivacyOptions,
+    PrivacySettings,
+    BrandSafetyOptions,
+    BrandSafetyRule,
+    BrandSafetySettings,
+    FilteredAd,
+    PacingOptions,
+    PacingSettings,
+    PacingState,
+    PacingStore,
+    StateStore,
+    KeyValueAdapter,
+    SessionState,
+    CircuitBreakerSnapshot,
+    CircuitBreakerOptions,
+    CircuitBreakerSettings,
+    WindowBucket
+};
@@ -0,0 +1,230 @@
+/**
+ * Structured logging for ADCortex API clients.
+ *
+ * Clients log through the Logger interface with a message and a flat object of
+ * fields (session_id, rguid, latency_ms, queue_size, ...). Adapters decide how
+ * those records are written.
+ */
+
+/**
+ * Log level enumeration, from most to least verbose.
+ *
+ * Attributes:
+ *     debug: Diagnostic detail, including redacted request payloads.
+ *     info: Normal operation (ads fetched, batches processed).
+ *     warn: Recoverable problems (queue overflow, endpoint failover).
+ *     error: Failed requests and invalid responses.
+ *     silent: Disables logging.
+ */
+export enum LogLevel {
+  debug = "debug",
+  info = "info",
+  warn = "warn",
+  error = "error",
+  silent = "silent"
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  [LogLevel.debug]: 10,
+  [LogLevel.info]: 20,
+  [LogLevel.warn]: 30,
+  [LogLevel.error]: 40,
+  [LogLevel.silent]: 100
+};
+
+/**
+ * Structured fields attached to a log record.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Contract implemented by every logger.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+function formatDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0'); // months are 0-indexed
+  const day = String(date.getDate()).padStart(2, '0');
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  const seconds = String(date.getSeconds()).padStart(2, '0');
+
+  return `${year}-${month}-${day} ${hours}:${minutes}:${seconds}`;
+}
+
+function format_value(value: unknown): string {
+  if (typeof value === "string") {
+    return /\s/.test(value) ? JSON.stringify(value) : value;
+  }
+  if (value instanceof Error) {
+    return JSON.stringify(value.message);
+  }
+  return JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Base class for loggers that filter records by level.
+ */
+abstract class LeveledLogger implements Logger {
+  protected _name: string;
+  protected _level: LogLevel;
+
+  /**
+   * @param name - Logger name included in every record
+   * @param level - Minimum level that is written
+   */
+  constructor(name: string, level: LogLevel) {
+    this._name = name;
+    this._level = level;
+  }
+
+  public debug(message: string, fields: LogFields = {}): void {
+    this._emit(LogLevel.debug, message, fields);
+  }
+
+  public info(message: string, fields: LogFields = {}): void {
+    this._emit(LogLevel.info, message, fields);
+  }
+
+  public warn(message: string, fields: LogFields = {}): void {
+    this._emit(LogLevel.warn, message, fields);
+  }
+
+  public error(message: string, fields: LogFields = {}): void {
+    this._emit(LogLevel.error, message, fields);
+  }
+
+  private _emit(level: LogLevel, message: string, fields: LogFields): void {
+    if (LEVEL_ORDER[level] >= LEVEL_ORDER[this._level]) {
+      this._write(level, message, fields);
+    }
+  }
+
+  protected abstract _write(level: LogLevel, message: string, fields: LogFields): void;
+}
+
+/**
+ * Human readable logger writing to the console.
+ *
+ * Records look like `2025-01-01 12:00:00 - chat_client - INFO - Ad fetched session_id=42 latency_ms=120`.
+ */
+export class ConsoleLogger extends LeveledLogger {
+  constructor(name: string = "adcortex", level: LogLevel = LogLevel.info) {
+    super(name, level);
+  }
+
+  protected _write(level: LogLevel, message: string, fields: LogFields): void {
+    const suffix = Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => ` ${key}=${format_value(value)}`)
+      .join("");
+    const line = `${formatDate(new Date())} - ${this._name} - ${level.toUpperCase()} - ${message}${suffix}`;
+    if (level === LogLevel.error) {
+      console.error(line);
+    } else if (level === LogLevel.warn) {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+/**
+ * Logger writing one JSON object per record, for log aggregation pipelines.
+ */
+export class JsonLogger extends LeveledLogger {
+  private _sink: (line: string) => void;
+
+  /**
+   * @param name - Logger name included in every record
+   * @param level - Minimum level that is written
+   * @param sink - Receives each serialised record, defaults to console.log
+   */
+  constructor(
+    name: string = "adcortex",
+    level: LogLevel = LogLevel.info,
+    sink: (line: string) => void = line => console.log(line)
+  ) {
+    super(name, level);
+    this._sink = sink;
+  }
+
+  protected _write(level: LogLevel, message: string, fields: LogFields): void {
+    const record: Record<string, unknown> = {
+      timestamp: new Date().toISOString(),
+      level: level,
+      logger: this._name,
+      message: message
+    };
+    for (const [key, value] of Object.entries(fields)) {
+      record[key] = value instanceof Error ? value.message : value;
+    }
+    this._sink(JSON.stringify(record));
+  }
+}
+
+/**
+ * Logger that discards every record.
+ */
+export class NoopLogger implements Logger {
+  public debug(): void {}
+  public info(): void {}
+  public warn(): void {}
+  public error(): void {}
+}
+
+const REDACTED = "[REDACTED]";
+const PII_USER_FIELDS = ["user_id", "age", "gender", "location"];
+const PII_ATTACHMENT_FIELDS = ["name", "url"];
+
+function redact_attachment(attachment: Record<string, any>): Record<string, any> {
+  const redacted: Record<string, any> = { ...attachment };
+  for (const field of PII_ATTACHMENT_FIELDS) {
+    if (field in redacted) {
+      redacted[field] = REDACTED;
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Return a copy of an ad request payload that is safe to log.
+ *
+ * Identifying user_data fields are replaced with a marker, message contents
+ * are replaced with their length and message locales and attachment names and
+ * URLs are replaced with a marker.
+ */
+export function redact_payload(payload: Record<string, any>): Record<string, any> {
+  const redacted: Record<string, any> = { ...payload };
+  if (payload.user_data && typeof payload.user_data === "object") {
+    const user_data: Record<string, any> = { ...payload.user_data };
+    for (const field of PII_USER_FIELDS) {
+      if (field in user_data) {
+        user_data[field] = REDACTED;
+      }
+    }
+    redacted.user_data = user_data;
+  }
+  if (Array.isArray(payload.messages)) {
+    redacted.messages = payload.messages.map((message: Record<string, any>) => {
+      const copy: Record<string, any> = {
+        ...message,
+        content: typeof message.content === "string" ? `[${message.content.length} chars]` : REDACTED
+      };
+      if ("locale" in message) {
+        copy.locale = REDACTED;
+      }
+      if (Array.isArray(message.attachments)) {
+        copy.attachments = message.attachments.map((attachment: Record<string, any>) => redact_attachment(attachment));
+      }
+      return copy;
+    });
+  }
+  return redacted;
+}
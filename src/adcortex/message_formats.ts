@@ -0,0 +1,156 @@
+/**
+ * Converters between LLM SDK message formats and ADCortex messages.
+ *
+ * Conversations held as OpenAI chat completion or Anthropic messages arrays
+ * can be turned into Message lists without reshaping them by hand, and the ad
+ * context can be returned as a system message in either format. Only the
+ * fields used here are typed, so the SDKs are not dependencies.
+ */
+
+import { MessageInput, Role } from './types.js';
+
+/**
+ * A content part of an OpenAI chat message.
+ */
+export interface OpenAIContentPart {
+  type: string;
+  text?: string;
+  refusal?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * An OpenAI chat completion message.
+ */
+export interface OpenAIChatMessage {
+  role: "system" | "developer" | "user" | "assistant" | "tool" | "function";
+  content?: string | OpenAIContentPart[] | null;
+  [key: string]: unknown;
+}
+
+/**
+ * A content block of an Anthropic message. tool_result blocks nest their content.
+ */
+export interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  content?: string | AnthropicContentBlock[];
+  [key: string]: unknown;
+}
+
+/**
+ * An Anthropic message. The system prompt is not a message in this format.
+ */
+export interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+/**
+ * Options of the message converters.
+ *
+ * Attributes:
+ *     system_role (Role | null): Role the system and developer turns are sent as, or null to
+ *         drop them. Defaults to null.
+ *     tool_role (Role | null): Role the tool and function results are sent as, or null to drop
+ *         them. Defaults to null.
+ *     separator (string): Joins the text parts of multi-part content. Defaults to "\n".
+ *     system (string | AnthropicContentBlock[]): The Anthropic system prompt, converted first
+ *         when system_role is set. Ignored for OpenAI messages, which carry it as a turn.
+ */
+export interface MessageConversionOptions {
+  system_role?: Role | null;
+  tool_role?: Role | null;
+  separator?: string;
+  system?: string | AnthropicContentBlock[];
+}
+
+type ContentPart = OpenAIContentPart | AnthropicContentBlock;
+
+function text_of(content: string | ContentPart[] | null | undefined, separator: string): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  // Images, audio and tool calls carry nothing the ad matching can use
+  return (content ?? [])
+    .map(part => {
+      if (typeof part.text === "string") {
+        return part.text;
+      }
+      if (typeof part.refusal === "string") {
+        return part.refusal;
+      }
+      if (part.type === "tool_result") {
+        return text_of(part.content as AnthropicContentBlock["content"], separator);
+      }
+      return "";
+    })
+    .filter(text => text.length > 0)
+    .join(separator);
+}
+
+function convert(role: Role | null | undefined, content: string): MessageInput[] {
+  return role && content.trim().length > 0 ? [{ role: role, content: content }] : [];
+}
+
+/**
+ * Convert OpenAI chat completion messages.
+ *
+ * assistant turns become ai messages. Multi-part content is flattened to its text, and turns
+ * left without text, such as assistant turns holding only tool calls, are skipped. Pass the
+ * result to add_past_messages to resume the conversation.
+ */
+export function from_openai_messages(messages: OpenAIChatMessage[], options: MessageConversionOptions = {}): MessageInput[] {
+  const separator = options.separator ?? "\n";
+  return messages.flatMap(message => {
+    const content = text_of(message.content, separator);
+    switch (message.role) {
+      case "user":
+        return convert(Role.user, content);
+      case "assistant":
+        return convert(Role.ai, content);
+      case "system":
+      case "developer":
+        return convert(options.system_role, content);
+      default:
+        return convert(options.tool_role, content);
+    }
+  });
+}
+
+/**
+ * Convert Anthropic messages.
+ *
+ * assistant turns become ai messages. User turns made only of tool_result blocks are tool turns;
+ * text blocks are kept and other blocks dropped from the rest. Turns left without text are skipped.
+ */
+export function from_anthropic_messages(messages: AnthropicMessage[], options: MessageConversionOptions = {}): MessageInput[] {
+  const separator = options.separator ?? "\n";
+  const converted = options.system === undefined ? [] : convert(options.system_role, text_of(options.system, separator));
+  for (const message of messages) {
+    const blocks = typeof message.content === "string" ? null : message.content;
+    if (message.role === "assistant") {
+      converted.push(...convert(Role.ai, text_of(message.content, separator)));
+    } else if (blocks && blocks.length > 0 && blocks.every(block => block.type === "tool_result")) {
+      converted.push(...convert(options.tool_role, text_of(blocks, separator)));
+    } else {
+      const user_content = blocks ? blocks.filter(block => block.type !== "tool_result") : message.content;
+      converted.push(...convert(Role.user, text_of(user_content, separator)));
+    }
+  }
+  return converted;
+}
+
+/**
+ * The ad context as an OpenAI system message.
+ */
+export function openai_system_message(context: string): OpenAIChatMessage & { role: "system"; content: string } {
+  return { role: "system", content: context };
+}
+
+/**
+ * The ad context as an Anthropic text block, to add to the system parameter.
+ */
+export function anthropic_system_block(context: string): AnthropicContentBlock & { type: "text"; text: string } {
+  return { type: "text", text: context };
+}
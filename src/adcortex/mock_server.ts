@@ -0,0 +1,328 @@
+/**
+ * In-process mock of the ADCortex API for offline tests.
+ *
+ * MockAdcortexServer answers ad matching and tracking requests without any
+ * network access. Pass it to a client as its transport, or pass its fetch
+ * function to FetchTransport to exercise the real HTTP code path, including
+ * timeouts and retries.
+ */
+
+import { ZodIssue } from 'zod';
+
+import { Ad, AdRequestSchema, Gender, Interest, Language, SessionInfo } from './types.js';
+import { TrackingEvent } from './tracking.js';
+import {
+  Transport,
+  TransportError,
+  TransportRequest,
+  TransportResponse,
+  aborted_error,
+  assert_success,
+  sleep
+} from './transport.js';
+import { DEFAULT_API_PATH, DEFAULT_TRACKING_PATH } from './config.js';
+
+/**
+ * A scripted response of the mock server.
+ *
+ * Attributes:
+ *     status (number): HTTP status. Defaults to 200.
+ *     body (unknown): Response body; strings are sent as-is, anything else as JSON.
+ *         Defaults to an empty ad list.
+ *     headers (Record<string, string>): Response headers.
+ *     delay_ms (number): Time before the response is sent. Requests whose timeout is
+ *         shorter time out.
+ *     network_error (boolean): Fail as if the connection was refused instead of responding.
+ */
+export interface MockResponse {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  delay_ms?: number;
+  network_error?: boolean;
+}
+
+/**
+ * A request received by the mock server.
+ *
+ * Attributes:
+ *     kind ("ad" | "tracking" | "unknown"): Endpoint the request was sent to.
+ *     url (string): Full request URL.
+ *     headers (Record<string, string>): Request headers with lowercased names.
+ *     body (any): Parsed JSON body.
+ *     payload_issues (ZodIssue[]): Problems found in an ad request payload; empty when valid.
+ */
+export interface RecordedRequest {
+  kind: "ad" | "tracking" | "unknown";
+  url: string;
+  headers: Record<string, string>;
+  body: any;
+  payload_issues: ZodIssue[];
+}
+
+/**
+ * Options of the mock server.
+ *
+ * Attributes:
+ *     api_path (string): Path of the ad matching endpoint. Defaults to DEFAULT_API_PATH.
+ *     tracking_path (string): Path of the tracking endpoint. Defaults to DEFAULT_TRACKING_PATH.
+ *     validate_payload (boolean): Answer 422 to ad requests that don't match AdRequestSchema.
+ *         Defaults to true.
+ *     api_key (string | null): Answer 401 to requests without this key. Defaults to accepting any key.
+ */
+export interface MockServerOptions {
+  api_path?: string;
+  tracking_path?: string;
+  validate_payload?: boolean;
+  api_key?: string | null;
+}
+
+function parse_body(body: unknown): any {
+  if (typeof body !== "string") {
+    return body ?? null;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Build a valid ad for tests.
+ */
+export function sample_ad(overrides: Partial<Ad> = {}): Ad {
+  return {
+    ad_title: "Sample Product",
+    ad_description: "A product used in tests",
+    placement_template: "You might like Sample Product.",
+    link: "https://example.com/sample-product",
+    ...overrides
+  };
+}
+
+/**
+ * Build a valid session info for tests.
+ */
+export function sample_session_info(overrides: Partial<SessionInfo> = {}): SessionInfo {
+  return {
+    session_id: "test-session",
+    character_name: "Assistant",
+    character_metadata: "Friendly test assistant",
+    user_info: {
+      user_id: "test-user",
+      age: 30,
+      gender: Gender.other,
+      location: "US",
+      language: Language.en,
+      interests: [Interest.technology]
+    },
+    platform: {
+      name: "test-platform",
+      varient: "default"
+    },
+    ...overrides
+  };
+}
+
+/**
+ * In-process mock of the matchv2 and tracking endpoints.
+ *
+ * Ad requests are answered with scripted responses in FIFO order, falling
+ * back to the default response (an empty ad list) once the script runs out.
+ * Tracking requests are always accepted.
+ */
+export class MockAdcortexServer implements Transport {
+  public readonly requests: RecordedRequest[];
+  private _script: MockResponse[];
+  private _default: MockResponse;
+  private _api_path: string;
+  private _tracking_path: string;
+  private _validate_payload: boolean;
+  private _api_key: string | null;
+
+  /**
+   * @param options - Server options
+   */
+  constructor(options: MockServerOptions = {}) {
+    this.requests = [];
+    this._script = [];
+    this._default = {};
+    this._api_path = options.api_path ?? DEFAULT_API_PATH;
+    this._tracking_path = options.tracking_path ?? DEFAULT_TRACKING_PATH;
+    this._validate_payload = options.validate_payload ?? true;
+    this._api_key = options.api_key ?? null;
+  }
+
+  /**
+   * Queue a response for the next ad request.
+   */
+  public respond_with(response: MockResponse): this {
+    this._script.push(response);
+    return this;
+  }
+
+  /**
+   * Queue a successful response carrying the given ads.
+   */
+  public respond_with_ads(ads: Ad[], delay_ms: number = 0): this {
+    return this.respond_with({ body: { ads }, delay_ms });
+  }
+
+  /**
+   * Queue an error status, e.g. 401, 429 or 503.
+   */
+  public respond_with_error(
+    status: number,
+    body: unknown = { detail: "Mock error" },
+    headers: Record<string, string> = {}
+  ): this {
+    return this.respond_with({ status, body, headers });
+  }
+
+  /**
+   * Queue a 200 response whose body does not match AdResponseSchema.
+   */
+  public respond_with_malformed(body: unknown = { unexpected: true }): this {
+    return this.respond_with({ body });
+  }
+
+  /**
+   * Queue a connection failure.
+   */
+  public respond_with_network_error(): this {
+    return this.respond_with({ network_error: true });
+  }
+
+  /**
+   * Set the response used once the script runs out.
+   */
+  public set_default(response: MockResponse): this {
+    this._default = response;
+    return this;
+  }
+
+  /**
+   * Requests sent to the ad matching endpoint.
+   */
+  public ad_requests(): RecordedRequest[] {
+    return this.requests.filter(request => request.kind === "ad");
+  }
+
+  /**
+   * Tracking events received, in order.
+   */
+  public tracking_events(): TrackingEvent[] {
+    return this.requests
+      .filter(request => request.kind === "tracking")
+      .flatMap(request => request.body?.events ?? []);
+  }
+
+  /**
+   * Drop recorded requests, unused scripted responses and the default response.
+   */
+  public reset(): void {
+    this.requests.length = 0;
+    this._script = [];
+    this._default = {};
+  }
+
+  public async post(request: TransportRequest): Promise<TransportResponse> {
+    const response = this._receive(request.url, request.headers, request.body);
+    const timeout = Math.min(request.timeout, (request.deadline ?? Infinity) - Date.now());
+    if (response.delay_ms) {
+      if (response.delay_ms > timeout) {
+        await sleep(timeout, request.signal);
+        throw new TransportError(`timeout of ${timeout}ms exceeded`, "TIMEOUT");
+      }
+      await sleep(response.delay_ms, request.signal);
+    }
+    if (request.signal?.aborted) {
+      throw aborted_error(request.signal);
+    }
+    if (response.network_error) {
+      throw new TransportError("Mock network error", "NETWORK");
+    }
+    return assert_success({
+      status: response.status ?? 200,
+      data: response.body === undefined ? { ads: [] } : parse_body(response.body),
+      headers: this._response_headers(response)
+    });
+  }
+
+  /**
+   * fetch-compatible entry point, for use with FetchTransport.
+   */
+  public readonly fetch = (async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, key) => {
+      headers[key] = value;
+    });
+    const response = this._receive(url, headers, parse_body(init.body));
+    const signal = init.signal;
+    if (response.delay_ms) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, response.delay_ms);
+        signal?.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(new DOMException("The operation was aborted", "AbortError"));
+        });
+      });
+    }
+    if (signal?.aborted) {
+      throw new DOMException("The operation was aborted", "AbortError");
+    }
+    if (response.network_error) {
+      throw new TypeError("fetch failed");
+    }
+    const body = response.body ?? { ads: [] };
+    return new Response(typeof body === "string" ? body : JSON.stringify(body), {
+      status: response.status ?? 200,
+      headers: this._response_headers(response)
+    });
+  }) as typeof fetch;
+
+  private _receive(url: string, headers: Record<string, string>, body: any): MockResponse {
+    /**
+     * Record a request and decide how to answer it.
+     */
+    const lowered: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers)) {
+      lowered[key.toLowerCase()] = value;
+    }
+    const path = new URL(url).pathname;
+    const kind = path.endsWith(this._api_path) ? "ad" : path.endsWith(this._tracking_path) ? "tracking" : "unknown";
+    const parsed = kind === "ad" ? AdRequestSchema.safeParse(body) : null;
+    const recorded: RecordedRequest = {
+      kind,
+      url,
+      headers: lowered,
+      body,
+      payload_issues: parsed && !parsed.success ? parsed.error.issues : []
+    };
+    this.requests.push(recorded);
+
+    if (this._api_key !== null && lowered["x-api-key"] !== this._api_key) {
+      return { status: 401, body: { detail: "Invalid API key" } };
+    }
+    if (kind === "unknown") {
+      return { status: 404, body: { detail: "Not Found" } };
+    }
+    if (kind === "tracking") {
+      return { status: 200, body: { accepted: body?.events?.length ?? 0 } };
+    }
+    if (this._validate_payload && recorded.payload_issues.length) {
+      return { status: 422, body: { detail: recorded.payload_issues } };
+    }
+    return this._script.shift() ?? this._default;
+  }
+
+  private _response_headers(response: MockResponse): Record<string, string> {
+    const headers: Record<string, string> = { "content-type": "application/json" };
+    for (const [key, value] of Object.entries(response.headers ?? {})) {
+      headers[key.toLowerCase()] = value;
+    }
+    return headers;
+  }
+}
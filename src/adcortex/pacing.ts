@@ -0,0 +1,213 @@
+/**
+ * Frequency capping and ad pacing for ADCortex API clients.
+ *
+ * An AdPacer counts user turns and shown ads per session and per user, and
+ * decides before each ad request whether another ad may be shown yet. Its
+ * state lives in a PacingStore, in memory by default, so that caps can be
+ * shared across client instances and processes by plugging in a shared store.
+ */
+
+import { Logger } from './logger.js';
+
+/**
+ * Pacing state of one session or one user.
+ *
+ * Attributes:
+ *     ads_shown (number): Number of ads shown.
+ *     shown_at (number[]): Unix times in milliseconds of the recent ads shown, oldest first.
+ *     user_turns_since_ad (number | null): User turns since the last ad shown; null before the first ad.
+ */
+export interface PacingState {
+  ads_shown: number;
+  shown_at: number[];
+  user_turns_since_ad: number | null;
+}
+
+/**
+ * Storage of pacing state. Keys are "session:<session_id>" and "user:<user_id>".
+ *
+ * Both methods may be synchronous or return a promise, so a store can be backed by
+ * memory as well as by Redis or a database.
+ */
+export interface PacingStore {
+  get(key: string): PacingState | null | Promise<PacingState | null>;
+  set(key: string, state: PacingState): void | Promise<void>;
+}
+
+/**
+ * Pacing store keeping state in memory, for a single process. This is the default.
+ */
+export class InMemoryPacingStore implements PacingStore {
+  private _states: Map<string, PacingState>;
+
+  constructor() {
+    this._states = new Map();
+  }
+
+  public get(key: string): PacingState | null {
+    const state = this._states.get(key);
+    return state ? { ...state, shown_at: [...state.shown_at] } : null;
+  }
+
+  public set(key: string, state: PacingState): void {
+    this._states.set(key, { ...state, shown_at: [...state.shown_at] });
+  }
+}
+
+/**
+ * Which pacing limit stopped an ad request.
+ *
+ * Attributes:
+ *     min_turns: Not enough user turns since the last ad shown in the session.
+ *     session_cap: The session reached max_ads_per_session.
+ *     user_cap: The user reached max_ads_per_user within user_window.
+ *     cooldown: The user's last ad was shown less than cooldown seconds ago.
+ */
+export enum PacingReason {
+  min_turns = "min_turns",
+  session_cap = "session_cap",
+  user_cap = "user_cap",
+  cooldown = "cooldown"
+}
+
+/**
+ * Settings of an AdPacer.
+ *
+ * Attributes:
+ *     min_turns_between_ads (number): User turns required after an ad is shown before the next request.
+ *     max_ads_per_session (number): Maximum ads shown per session.
+ *     max_ads_per_user (number): Maximum ads shown per user within user_window.
+ *     user_window (number): Window of max_ads_per_user in seconds.
+ *     cooldown (number): Seconds after an ad is shown to the user before the next request.
+ */
+export interface PacingSettings {
+  min_turns_between_ads?: number;
+  max_ads_per_session?: number;
+  max_ads_per_user?: number;
+  user_window: number;
+  cooldown?: number;
+}
+
+function empty_state(): PacingState {
+  return { ads_shown: 0, shown_at: [], user_turns_since_ad: null };
+}
+
+/**
+ * Applies pacing limits, keeping state per session and per user in a PacingStore.
+ *
+ * Operations are applied in the order they are called, even with an asynchronous store.
+ * Store failures are logged and never block ads.
+ */
+export class AdPacer {
+  private _settings: PacingSettings;
+  private _store: PacingStore;
+  private _logger: Logger;
+  private _pending: Promise<unknown>;
+
+  /**
+   * @param settings - Pacing limits
+   * @param store - Where the state is kept
+   * @param logger - Logger for store failures
+   */
+  constructor(settings: PacingSettings, store: PacingStore, logger: Logger) {
+    this._settings = settings;
+    this._store = store;
+    this._logger = logger;
+    this._pending = Promise.resolve();
+  }
+
+  /**
+   * Count a user message of the session.
+   */
+  public record_user_turn(session_id: string): Promise<void> {
+    return this._enqueue(async () => {
+      const state = await this._load(session_key(session_id));
+      if (state.user_turns_since_ad !== null) {
+        state.user_turns_since_ad += 1;
+        await this._store.set(session_key(session_id), state);
+      }
+    }, undefined);
+  }
+
+  /**
+   * Count an ad shown to the user in the session.
+   */
+  public record_shown(session_id: string, user_id: string, now: number = Date.now()): Promise<void> {
+    return this._enqueue(async () => {
+      const session = await this._load(session_key(session_id));
+      session.ads_shown += 1;
+      session.user_turns_since_ad = 0;
+      await this._store.set(session_key(session_id), session);
+
+      const user = await this._load(user_key(user_id));
+      user.ads_shown += 1;
+      user.shown_at = [...this._recent(user.shown_at, now), now];
+      user.user_turns_since_ad = 0;
+      await this._store.set(user_key(user_id), user);
+    }, undefined);
+  }
+
+  /**
+   * Decide whether an ad request may be made now.
+   *
+   * @returns The limit that was reached, or null if a request may be made
+   */
+  public check(session_id: string, user_id: string, now: number = Date.now()): Promise<PacingReason | null> {
+    return this._enqueue(async () => {
+      const { min_turns_between_ads, max_ads_per_session, max_ads_per_user, user_window, cooldown } = this._settings;
+      const session = await this._load(session_key(session_id));
+      if (max_ads_per_session !== undefined && session.ads_shown >= max_ads_per_session) {
+        return PacingReason.session_cap;
+      }
+      if (
+        min_turns_between_ads !== undefined
+        && session.user_turns_since_ad !== null
+        && session.user_turns_since_ad < min_turns_between_ads
+      ) {
+        return PacingReason.min_turns;
+      }
+      if (max_ads_per_user === undefined && cooldown === undefined) {
+        return null;
+      }
+      const user = await this._load(user_key(user_id));
+      const last_shown = user.shown_at[user.shown_at.length - 1];
+      if (cooldown !== undefined && last_shown !== undefined && now - last_shown < cooldown * 1000) {
+        return PacingReason.cooldown;
+      }
+      if (
+        max_ads_per_user !== undefined
+        && user.shown_at.filter(shown => now - shown < user_window * 1000).length >= max_ads_per_user
+      ) {
+        return PacingReason.user_cap;
+      }
+      return null;
+    }, null);
+  }
+
+  private _recent(shown_at: number[], now: number): number[] {
+    // Timestamps older than both the user window and the cooldown can no longer cap anything
+    const horizon = Math.max(this._settings.user_window, this._settings.cooldown ?? 0) * 1000;
+    return shown_at.filter(shown => now - shown < horizon);
+  }
+
+  private async _load(key: string): Promise<PacingState> {
+    return (await this._store.get(key)) ?? empty_state();
+  }
+
+  private _enqueue<T>(operation: () => Promise<T>, fallback: T): Promise<T> {
+    const result = this._pending.then(operation).catch(e => {
+      this._logger.warn("Pacing store failed, ads are not capped", { error: e });
+      return fallback;
+    });
+    this._pending = result;
+    return result;
+  }
+}
+
+function session_key(session_id: string): string {
+  return `session:${session_id}`;
+}
+
+function user_key(user_id: string): string {
+  return `user:${user_id}`;
+}
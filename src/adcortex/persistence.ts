@@ -0,0 +1,148 @@
+/**
+ * Pluggable persistence of chat client state.
+ *
+ * A client given a StateStore saves its session state (queue, history,
+ * pending ads and circuit breaker) after every change, keyed by session_id,
+ * and can rehydrate it with restore(). This lets serverless deployments that
+ * build a new client per invocation keep conversations and error counts.
+ *
+ * InMemoryStateStore and KeyValueStateStore work on every runtime;
+ * FileStateStore, in file_state_store.ts, needs Node.
+ */
+
+import { z } from 'zod';
+
+import { AdSchema, MessageSchema } from './types.js';
+import { CircuitState } from './state.js';
+
+/**
+ * Storage of JSON-serializable values by key.
+ *
+ * Every method may be synchronous or return a promise.
+ */
+export interface StateStore {
+  get(key: string): unknown | Promise<unknown>;
+  set(key: string, value: unknown): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Version of the persisted session state format.
+ */
+export const SESSION_STATE_VERSION = 2;
+
+/**
+ * Persisted state of a chat client session.
+ *
+ * Attributes:
+ *     version (number): SESSION_STATE_VERSION of the format.
+ *     saved_at (number): Unix time in milliseconds of the save.
+ *     queue (Message[]): Messages not sent yet.
+ *     history (Message[]): Sent messages kept for the window history mode.
+ *     first_user_message (Message | null): First user message of the conversation.
+ *     first_user_message_index (number | null): Position of first_user_message in history
+ *         followed by queue, or null if it is in neither.
+ *     latest_ad (Ad | null): Ad not handed out yet.
+ *     latest_ads (Ad[]): Candidate ads of the last response.
+ *     ad_rguids ([string, string][]): Ad keys and the RGUIDs of the requests that returned them.
+ *     circuit_breakers ([string, CircuitBreakerSnapshot][]): Endpoints and the state of their circuit breakers.
+ */
+export const SessionStateSchema = z.object({
+  version: z.literal(SESSION_STATE_VERSION),
+  saved_at: z.number(),
+  queue: z.array(MessageSchema),
+  history: z.array(MessageSchema),
+  first_user_message: MessageSchema.nullable(),
+  first_user_message_index: z.number().int().min(0).nullable(),
+  latest_ad: AdSchema.nullable(),
+  latest_ads: z.array(AdSchema),
+  ad_rguids: z.array(z.tuple([z.string(), z.string()])),
+  circuit_breakers: z.array(z.tuple([z.string(), z.object({
+    state: z.nativeEnum(CircuitState),
+    reset_time: z.number().nullable(),
+    buckets: z.array(z.object({
+      start: z.number(),
+      requests: z.number().int().min(0),
+      failures: z.number().int().min(0)
+    }))
+  })]))
+});
+
+export type SessionState = z.infer<typeof SessionStateSchema>;
+
+/**
+ * Key under which a session's state is stored.
+ */
+export function session_state_key(session_id: string): string {
+  return `session:${session_id}`;
+}
+
+/**
+ * State store keeping values in memory, for tests and long-lived processes.
+ *
+ * Values are copied through JSON, so they behave as they would in a real store.
+ */
+export class InMemoryStateStore implements StateStore {
+  private _values: Map<string, string>;
+
+  constructor() {
+    this._values = new Map();
+  }
+
+  public get(key: string): unknown {
+    const value = this._values.get(key);
+    return value === undefined ? null : JSON.parse(value);
+  }
+
+  public set(key: string, value: unknown): void {
+    this._values.set(key, JSON.stringify(value));
+  }
+
+  public delete(key: string): void {
+    this._values.delete(key);
+  }
+}
+
+/**
+ * String key-value storage such as Redis, Memcached or a platform KV.
+ *
+ * ttl is in seconds; adapters without expiry may ignore it.
+ */
+export interface KeyValueAdapter {
+  get(key: string): string | null | undefined | Promise<string | null | undefined>;
+  set(key: string, value: string, ttl?: number): unknown;
+  delete(key: string): unknown;
+}
+
+/**
+ * State store on top of any string key-value storage.
+ */
+export class KeyValueStateStore implements StateStore {
+  private _adapter: KeyValueAdapter;
+  private _prefix: string;
+  private _ttl?: number;
+
+  /**
+   * @param adapter - The key-value storage
+   * @param prefix - Prefix added to every key. Defaults to "adcortex:"
+   * @param ttl - Expiry of stored values in seconds, passed to the adapter
+   */
+  constructor(adapter: KeyValueAdapter, prefix: string = "adcortex:", ttl?: number) {
+    this._adapter = adapter;
+    this._prefix = prefix;
+    this._ttl = ttl;
+  }
+
+  public async get(key: string): Promise<unknown> {
+    const value = await this._adapter.get(this._prefix + key);
+    return value === null || value === undefined ? null : JSON.parse(value);
+  }
+
+  public async set(key: string, value: unknown): Promise<void> {
+    await this._adapter.set(this._prefix + key, JSON.stringify(value), this._ttl);
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this._adapter.delete(this._prefix + key);
+  }
+}
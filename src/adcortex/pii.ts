@@ -0,0 +1,349 @@
+/**
+ * PII scrubbing for outgoing message content.
+ *
+ * A PiiScrubber runs a list of redactors over every message, including the
+ * names and URLs of its attachments, before it is put into an ad request,
+ * replacing detected values with placeholders such as [EMAIL]. Built-in
+ * redactors cover emails, phone numbers, credit card numbers (Luhn-checked),
+ * IBANs (checksum-checked) and IP addresses; custom redactors can be regular
+ * expressions or functions.
+ */
+
+import { Message } from './types.js';
+
+/**
+ * Built-in PII detectors.
+ *
+ * Attributes:
+ *     email: Email addresses.
+ *     phone: Phone numbers with 7 to 15 digits, optionally international. Runs of bare digits
+ *         need at least 10 of them, and numbers labelled e.g. order or ticket number are skipped,
+ *         as are dates, lists of years, signed decimals and parts of longer hyphenated codes.
+ *     credit_card: Card numbers with 13 to 19 digits that pass the Luhn check.
+ *     iban: IBANs of their country's length that pass the mod-97 check.
+ *     ip_address: IPv4 and IPv6 addresses. Dotted numbers that follow e.g. version are skipped.
+ */
+export enum PiiType {
+  email = "email",
+  phone = "phone",
+  credit_card = "credit_card",
+  iban = "iban",
+  ip_address = "ip_address"
+}
+
+/**
+ * Redacts every match of a regular expression.
+ *
+ * Attributes:
+ *     name (string): Name used in reports and in the default replacement.
+ *     pattern (RegExp): What to look for. All matches are replaced, whether or not the g flag is set.
+ *     validate ((match: string) => boolean): Keeps only the matches it accepts, e.g. a checksum.
+ *     replacement (string): Replacement text. Defaults to the upper-cased name in brackets.
+ */
+export interface PatternRedactor {
+  name: string;
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+  replacement?: string;
+}
+
+/**
+ * Result of a function redactor.
+ *
+ * Attributes:
+ *     text (string): Text with the values redacted.
+ *     count (number): Number of values redacted.
+ */
+export interface RedactionResult {
+  text: string;
+  count: number;
+}
+
+/**
+ * Redacts with arbitrary code. Returning a plain string counts as one
+ * redaction when the text changed.
+ *
+ * Attributes:
+ *     name (string): Name used in reports.
+ *     redact ((text: string) => string | RedactionResult): The redaction.
+ */
+export interface FunctionRedactor {
+  name: string;
+  redact: (text: string) => string | RedactionResult;
+}
+
+export type Redactor = PatternRedactor | FunctionRedactor;
+
+/**
+ * What was redacted from the messages of one ad request. Never contains the redacted values.
+ *
+ * Attributes:
+ *     total (number): Number of values redacted.
+ *     counts (Record<string, number>): Number of values redacted per redactor name.
+ *     messages ({ index: number; counts: Record<string, number> }[]): Per-message counts, for
+ *         the messages that had something redacted; index refers to the messages sent.
+ */
+export interface RedactionReport {
+  total: number;
+  counts: Record<string, number>;
+  messages: { index: number; counts: Record<string, number> }[];
+}
+
+/**
+ * Luhn checksum used by payment card numbers.
+ */
+export function luhn_check(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 mod-97 checksum used by IBANs.
+ */
+export function iban_check(value: string): boolean {
+  const iban = value.replace(/\s/g, "").toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = char >= "A" ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * IBAN length per country, from the ISO 13616 registry.
+ */
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BI: 27, BR: 29, BY: 28,
+  CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DJ: 27, DK: 18, DO: 28, EE: 20, EG: 29, ES: 24, FI: 18,
+  FK: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18, GR: 27, GT: 28, HR: 21, HU: 28, IE: 22,
+  IL: 23, IQ: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20, LB: 28, LC: 32, LI: 21, LT: 20, LU: 20,
+  LV: 21, LY: 25, MC: 27, MD: 24, ME: 22, MK: 19, MN: 20, MR: 27, MT: 31, MU: 30, NI: 28, NL: 18,
+  NO: 15, OM: 23, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29, RO: 24, RS: 22, RU: 33, SA: 24, SC: 31,
+  SD: 18, SE: 24, SI: 19, SK: 24, SM: 27, SO: 23, ST: 25, SV: 28, TL: 23, TN: 24, TR: 26, UA: 29,
+  VA: 22, VG: 24, XK: 20, YE: 30
+};
+
+const IBAN_CANDIDATE = /\b([A-Za-z]{2})\d{2}(?: ?[A-Za-z0-9]){11,30}/g;
+
+function redact_ibans(text: string): RedactionResult {
+  // Candidates run on into the following words, so each is cut to its country's IBAN length
+  const pattern = new RegExp(IBAN_CANDIDATE.source, "g");
+  let redacted = "";
+  let last = 0;
+  let count = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const length = IBAN_LENGTHS[match[1].toUpperCase()];
+    let end = 0;
+    for (let seen = 0; length && end < match[0].length && seen < length; end++) {
+      if (match[0][end] !== " ") {
+        seen += 1;
+      }
+    }
+    const iban = match[0].slice(0, end);
+    const next = text[match.index + end] ?? "";
+    if (length && iban.replace(/ /g, "").length === length && !/[A-Za-z0-9]/.test(next) && iban_check(iban)) {
+      redacted += text.slice(last, match.index) + "[IBAN]";
+      last = match.index + end;
+      count += 1;
+      pattern.lastIndex = last;
+    } else {
+      pattern.lastIndex = match.index + 1;
+    }
+  }
+  return { text: redacted + text.slice(last), count };
+}
+
+function is_ipv6(value: string): boolean {
+  const compressed = value.split("::").length - 1;
+  if (compressed > 1) {
+    return false;
+  }
+  const groups = value.split(":").filter(group => group !== "");
+  if (!groups.length || groups.length > 8) {
+    return false;
+  }
+  return compressed === 1 ? groups.length < 8 : groups.length === 8;
+}
+
+function is_ip_address(value: string): boolean {
+  return value.includes(".") || is_ipv6(value);
+}
+
+function is_date(value: string): boolean {
+  const day_first = /^(\d{1,2})([./-])(\d{1,2})\2(?:19|20)\d{2}$/.exec(value);
+  const year_first = /^(?:19|20)\d{2}([./-])(\d{1,2})\1(\d{1,2})$/.exec(value);
+  const [a, b] = day_first ? [day_first[1], day_first[3]] : year_first ? [year_first[3], year_first[2]] : [];
+  if (a === undefined || b === undefined) {
+    return false;
+  }
+  // Either order of day and month, so that US dates are recognized too
+  const [x, y] = [Number(a), Number(b)];
+  return x >= 1 && y >= 1 && ((x <= 31 && y <= 12) || (x <= 12 && y <= 31));
+}
+
+function is_phone(value: string): boolean {
+  const digits = value.replace(/\D/g, "").length;
+  if (digits < 7 || digits > 15 || is_date(value)) {
+    return false;
+  }
+  // Years listed one after another, decimals such as coordinates and ISBN-13 codes
+  if (/^(?:19|20)\d{2}(?:[ .-](?:19|20)\d{2})+$/.test(value) || /^[+-]?\d{1,3}\.\d{4,}$/.test(value) || /^97[89]-/.test(value)) {
+    return false;
+  }
+  // A short run of bare digits is more likely an order or reference number
+  return /\D/.test(value) || digits >= 10;
+}
+
+/**
+ * Built-in redactors. They run in BUILTIN_ORDER (email, iban, credit_card,
+ * ip_address, phone), so that long digit runs are claimed by the stricter
+ * card and IBAN checks before the phone detector sees them.
+ */
+export const BUILTIN_REDACTORS: Record<PiiType, Redactor> = {
+  [PiiType.email]: {
+    name: PiiType.email,
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+  },
+  [PiiType.iban]: {
+    name: PiiType.iban,
+    redact: redact_ibans
+  },
+  [PiiType.credit_card]: {
+    name: PiiType.credit_card,
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: luhn_check
+  },
+  [PiiType.ip_address]: {
+    name: PiiType.ip_address,
+    pattern: /(?<![\w.]|\b(?:version|ver|release|build):? )(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)(?!\.?\d)|(?<![\w:])(?:[A-Fa-f0-9]{0,4}:){2,7}[A-Fa-f0-9]{0,4}(?![\w:])/g,
+    validate: is_ip_address
+  },
+  [PiiType.phone]: {
+    name: PiiType.phone,
+    pattern: /(?<![\w+]|\d[.-]|(?:^|\s)-|\b(?:order|invoice|tracking|ticket|booking|confirmation|reference|ref|serial|model)(?: ?(?:number|no\.?|nr\.?|#))?[ :#]*)(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4}(?!\w|[.-]\d)/gi,
+    validate: is_phone
+  }
+};
+
+const BUILTIN_ORDER = [PiiType.email, PiiType.iban, PiiType.credit_card, PiiType.ip_address, PiiType.phone];
+
+/**
+ * Built-in redactors for the given types, in detection order.
+ */
+export function builtin_redactors(types: PiiType[] = BUILTIN_ORDER): Redactor[] {
+  return BUILTIN_ORDER.filter(type => types.includes(type)).map(type => BUILTIN_REDACTORS[type]);
+}
+
+function apply_redactor(redactor: Redactor, text: string): RedactionResult {
+  if ("redact" in redactor) {
+    const result = redactor.redact(text);
+    if (typeof result === "string") {
+      return { text: result, count: result === text ? 0 : 1 };
+    }
+    return result;
+  }
+  const flags = redactor.pattern.flags.includes("g") ? redactor.pattern.flags : redactor.pattern.flags + "g";
+  const pattern = new RegExp(redactor.pattern.source, flags);
+  const replacement = redactor.replacement ?? `[${redactor.name.toUpperCase()}]`;
+  let count = 0;
+  const redacted = text.replace(pattern, match => {
+    if (redactor.validate && !redactor.validate(match)) {
+      return match;
+    }
+    count += 1;
+    return replacement;
+  });
+  return { text: redacted, count };
+}
+
+/**
+ * Runs redactors over message content.
+ */
+export class PiiScrubber {
+  private _redactors: Redactor[];
+
+  /**
+   * @param redactors - Redactors applied in order
+   */
+  constructor(redactors: Redactor[] = builtin_redactors()) {
+    this._redactors = redactors;
+  }
+
+  /**
+   * Redact a single text.
+   *
+   * @returns The redacted text and the number of values redacted per redactor name
+   */
+  public scrub_text(text: string): { text: string; counts: Record<string, number> } {
+    const counts: Record<string, number> = {};
+    for (const redactor of this._redactors) {
+      const result = apply_redactor(redactor, text);
+      text = result.text;
+      if (result.count > 0) {
+        counts[redactor.name] = (counts[redactor.name] ?? 0) + result.count;
+      }
+    }
+    return { text, counts };
+  }
+
+  /**
+   * Redact the content of every message and the names and URLs of its attachments.
+   *
+   * An attachment URL with something redacted is dropped rather than sent in a broken form.
+   *
+   * @returns Redacted copies of the messages and a report of what was redacted
+   */
+  public scrub(messages: Message[]): { messages: Message[]; report: RedactionReport } {
+    const report: RedactionReport = { total: 0, counts: {}, messages: [] };
+    const scrubbed = messages.map((message, index) => {
+      const counts: Record<string, number> = {};
+      const scrub = (value: string): { text: string; changed: boolean } => {
+        const result = this.scrub_text(value);
+        for (const [name, count] of Object.entries(result.counts)) {
+          counts[name] = (counts[name] ?? 0) + count;
+        }
+        return { text: result.text, changed: Object.keys(result.counts).length > 0 };
+      };
+      const content = scrub(message.content).text;
+      const attachments = message.attachments?.map(attachment => {
+        const { name, url, ...rest } = attachment;
+        const scrubbed_url = url === undefined ? undefined : scrub(url);
+        return {
+          ...rest,
+          ...(name !== undefined ? { name: scrub(name).text } : {}),
+          ...(scrubbed_url && !scrubbed_url.changed ? { url: url } : {})
+        };
+      });
+      const names = Object.keys(counts);
+      if (!names.length) {
+        return message;
+      }
+      for (const name of names) {
+        report.total += counts[name];
+        report.counts[name] = (report.counts[name] ?? 0) + counts[name];
+      }
+      report.messages.push({ index, counts });
+      return { ...message, content: content, ...(attachments ? { attachments: attachments } : {}) };
+    });
+    return { messages: scrubbed, report };
+  }
+}
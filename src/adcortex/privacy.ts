@@ -0,0 +1,119 @@
+/**
+ * Consent handling and privacy mode for ADCortex API clients.
+ *
+ * A PrivacyPolicy decides, from the consent on the session and the client's
+ * privacy options, what is sent about the user: the full user_info, a
+ * coarsened or stripped version of it, or no ad request at all for users
+ * below the minimum age.
+ */
+
+import { Consent, PrivateUserData, SessionInfo, UserInfo } from './types.js';
+
+/**
+ * How user_data is reduced in privacy mode.
+ *
+ * Attributes:
+ *     coarsen: Keep the language, the country and an age range such as "25-34".
+ *     strip: Keep the language only.
+ */
+export enum UserDataTreatment {
+  coarsen = "coarsen",
+  strip = "strip"
+}
+
+/**
+ * Settings of a PrivacyPolicy.
+ *
+ * Attributes:
+ *     always_private (boolean): Use privacy mode whatever the consent says.
+ *     treatment (UserDataTreatment): How user_data is reduced in privacy mode.
+ *     min_age (number): Users younger than this never get ad requests.
+ */
+export interface PrivacySettings {
+  always_private: boolean;
+  treatment: UserDataTreatment;
+  min_age: number;
+}
+
+const AGE_RANGES: [number, string][] = [
+  [18, "13-17"],
+  [25, "18-24"],
+  [35, "25-34"],
+  [45, "35-44"],
+  [55, "45-54"],
+  [65, "55-64"]
+];
+
+/**
+ * Age bracket of an age, e.g. "25-34". Ages under 13 are reported as "under-13".
+ */
+export function age_range(age: number): string {
+  if (age < 13) {
+    return "under-13";
+  }
+  for (const [upper, range] of AGE_RANGES) {
+    if (age < upper) {
+      return range;
+    }
+  }
+  return "65+";
+}
+
+/**
+ * Applies consent and privacy options to the user data of ad requests.
+ */
+export class PrivacyPolicy {
+  private _settings: PrivacySettings;
+
+  /**
+   * @param settings - Privacy options of the client
+   */
+  constructor(settings: PrivacySettings) {
+    this._settings = settings;
+  }
+
+  /**
+   * Whether no ad request may be made for the session's user.
+   */
+  public suppresses(session: SessionInfo): boolean {
+    return session.user_info.age < this._settings.min_age;
+  }
+
+  /**
+   * Whether the session's user data must be reduced: always_private is set, or the
+   * user withheld personalization or data sharing consent, or is a minor.
+   */
+  public is_private(session: SessionInfo): boolean {
+    const consent = session.consent;
+    return this._settings.always_private || (consent !== undefined && (
+      consent.ads_personalization === false
+      || consent.data_sharing === false
+      || consent.is_minor === true
+    ));
+  }
+
+  /**
+   * User data to send with an ad request.
+   */
+  public user_data(session: SessionInfo): UserInfo | PrivateUserData {
+    const user_info = session.user_info;
+    if (!this.is_private(session)) {
+      return { ...user_info };
+    }
+    if (this._settings.treatment === UserDataTreatment.strip) {
+      return { language: user_info.language };
+    }
+    return {
+      language: user_info.language,
+      location: user_info.location.toUpperCase(),
+      age_range: age_range(user_info.age)
+    };
+  }
+
+  /**
+   * Consent signals to forward with an ad request, if the session has any.
+   */
+  public consent(session: SessionInfo): Consent | undefined {
+    return session.consent ? { ...session.consent } : undefined;
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Ad selection strategies for ADCortex API clients.
+ *
+ * The API can return several candidate ads per request. The client keeps all
+ * of them and uses an AdSelector to decide which one becomes latest_ad.
+ */
+
+import { Ad } from './types.js';
+
+/**
+ * Information available to a selector when picking an ad.
+ *
+ * Attributes:
+ *     session_id (string): Session the ads were fetched for.
+ */
+export interface SelectionContext {
+  session_id: string;
+}
+
+/**
+ * Contract implemented by every ad selection strategy.
+ *
+ * select returns one of the candidates, or null to show no ad. record_shown,
+ * when implemented, is called each time an ad is handed to the application.
+ */
+export interface AdSelector {
+  select(candidates: Ad[], context: SelectionContext): Ad | null;
+  record_shown?(ad: Ad, context: SelectionContext): void;
+}
+
+/**
+ * Identity of an ad, used to recognise the same creative across responses.
+ */
+export function ad_key(ad: Ad): string {
+  return `${ad.link}\u0000${ad.ad_title}`;
+}
+
+/**
+ * Always picks the first candidate. This is the default strategy.
+ */
+export class FirstAdSelector implements AdSelector {
+  public select(candidates: Ad[]): Ad | null {
+    return candidates[0] ?? null;
+  }
+}
+
+/**
+ * Picks a candidate uniformly at random.
+ */
+export class RandomAdSelector implements AdSelector {
+  private _random: () => number;
+
+  /**
+   * @param random - Source of randomness in [0, 1), defaults to Math.random
+   */
+  constructor(random: () => number = Math.random) {
+    this._random = random;
+  }
+
+  public select(candidates: Ad[]): Ad | null {
+    if (!candidates.length) {
+      return null;
+    }
+    return candidates[Math.floor(this._random() * candidates.length)];
+  }
+}
+
+/**
+ * Cycles through candidate positions on successive selections.
+ */
+export class RoundRobinAdSelector implements AdSelector {
+  private _counter: number;
+
+  constructor() {
+    this._counter = 0;
+  }
+
+  public select(candidates: Ad[]): Ad | null {
+    if (!candidates.length) {
+      return null;
+    }
+    const ad = candidates[this._counter % candidates.length];
+    this._counter += 1;
+    return ad;
+  }
+}
+
+/**
+ * Skips ads that were already shown in the session, delegating the choice
+ * among the remaining candidates to another selector.
+ *
+ * Memory is bounded: only the max_sessions most recently active sessions are
+ * remembered, each with its max_ads_per_session most recently shown ads. An ad
+ * that was forgotten can be shown again.
+ */
+export class ExcludeShownAdSelector implements AdSelector {
+  private _inner: AdSelector;
+  private _max_sessions: number;
+  private _max_ads_per_session: number;
+  private _shown: Map<string, Set<string>>;
+
+  /**
+   * @param inner - Selector applied to the candidates that were not shown yet
+   * @param max_sessions - Sessions remembered; the least recently active is forgotten first
+   * @param max_ads_per_session - Shown ads remembered per session; the oldest is forgotten first
+   */
+  constructor(inner: AdSelector = new FirstAdSelector(), max_sessions: number = 1000, max_ads_per_session: number = 100) {
+    this._inner = inner;
+    this._max_sessions = max_sessions;
+    this._max_ads_per_session = max_ads_per_session;
+    this._shown = new Map();
+  }
+
+  public select(candidates: Ad[], context: SelectionContext): Ad | null {
+    const shown = this._shown.get(context.session_id);
+    const fresh = shown ? candidates.filter(ad => !shown.has(ad_key(ad))) : candidates;
+    return this._inner.select(fresh, context);
+  }
+
+  public record_shown(ad: Ad, context: SelectionContext): void {
+    const shown = this._shown.get(context.session_id) ?? new Set<string>();
+    // Re-inserting keeps the Map and Set in least recently used order
+    this._shown.delete(context.session_id);
+    this._shown.set(context.session_id, shown);
+    if (this._shown.size > this._max_sessions) {
+      this._shown.delete(this._shown.keys().next().value!);
+    }
+    const key = ad_key(ad);
+    shown.delete(key);
+    shown.add(key);
+    if (shown.size > this._max_ads_per_session) {
+      shown.delete(shown.values().next().value!);
+    }
+    this._inner.record_shown?.(ad, context);
+  }
+}
+
+/**
+ * Scoring function used by ScoredAdSelector. Higher scores win.
+ */
+export type AdScorer = (ad: Ad, context: SelectionContext) => number;
+
+/**
+ * Picks the candidate with the highest score; ties go to the earlier candidate.
+ */
+export class ScoredAdSelector implements AdSelector {
+  private _scorer: AdScorer;
+  private _min_score: number;
+
+  /**
+   * @param scorer - Scoring function
+   * @param min_score - Candidates scoring below this are never selected
+   */
+  constructor(scorer: AdScorer, min_score: number = -Infinity) {
+    this._scorer = scorer;
+    this._min_score = min_score;
+  }
+
+  public select(candidates: Ad[], context: SelectionContext): Ad | null {
+    let best: Ad | null = null;
+    let best_score = this._min_score;
+    for (const ad of candidates) {
+      const score = this._scorer(ad, context);
+      if (score > best_score || (best === null && score >= best_score)) {
+        best = ad;
+        best_score = score;
+      }
+    }
+    return best;
+  }
+}
@@ -2,6 +2,9 @@
  * State management for ADCortex chat client.
  */
 
+import { ConsoleLogger, Logger } from './logger.js';
+import { EventListener, TypedEventEmitter } from './events.js';
+
 function utcNow(): Date {
     return new Date();
 }
@@ -15,40 +18,209 @@ export enum ClientState {
 }
 
 /**
- * Circuit breaker for handling error thresholds and timeouts.
+ * Circuit breaker states.
+ *
+ * Attributes:
+ *     closed: Requests flow normally while failures are counted.
+ *     open: Requests are rejected until the breaker's timeout has passed.
+ *     half_open: A limited number of probe requests test whether the endpoint has recovered.
+ */
+export enum CircuitState {
+    closed = "closed",
+    open = "open",
+    half_open = "half_open"
+}
+
+/**
+ * State transitions emitted by the circuit breaker.
+ *
+ * Attributes:
+ *     opened: The failure thresholds were reached, or a probe failed, and the circuit opened.
+ *     half_opened: The timeout passed and the circuit admits probe requests.
+ *     closed: The probes succeeded, or the breaker was reset, and the circuit closed.
+ */
+export interface CircuitBreakerEventMap {
+    opened: { error_count: number; reset_time: Date };
+    half_opened: {};
+    closed: {};
+}
+
+/**
+ * Additional settings of a CircuitBreaker.
+ *
+ * Attributes:
+ *     failure_rate (number): Share of failed requests in the window, between 0 and 1, at or
+ *         above which the breaker opens, once threshold failures are reached. Defaults to 0.5.
+ *     window (number): Length of the sliding window in seconds. Defaults to 60.
+ *     half_open_probes (number): Probe requests admitted in the half-open state; all of them
+ *         must succeed to close the breaker. Defaults to 1.
+ */
+export interface CircuitBreakerSettings {
+    failure_rate?: number;
+    window?: number;
+    half_open_probes?: number;
+}
+
+/**
+ * Request outcomes within one slice of the sliding window.
+ *
+ * Attributes:
+ *     start: Unix time in milliseconds when the slice starts.
+ *     requests: Requests completed in the slice.
+ *     failures: Failed requests in the slice.
+ */
+export interface WindowBucket {
+    start: number;
+    requests: number;
+    failures: number;
+}
+
+/**
+ * Serializable state of a circuit breaker, used to persist it across client instances.
+ *
+ * Attributes:
+ *     state: State of the breaker.
+ *     reset_time: Unix time in milliseconds when an open breaker turns half-open, or null.
+ *     buckets: Request outcomes within the sliding window.
+ */
+export interface CircuitBreakerSnapshot {
+    state: CircuitState;
+    reset_time: number | null;
+    buckets: WindowBucket[];
+}
+
+// Number of slices the sliding window is divided into
+const WINDOW_BUCKETS = 10;
+
+/**
+ * Circuit breaker with a sliding-window failure rate and a half-open state.
+ *
+ * While closed, the breaker opens when, within the window, at least threshold requests
+ * failed and the failure rate reaches failure_rate. After timeout seconds an open breaker
+ * turns half-open and admits half_open_probes requests: if they all succeed it closes,
+ * and if one fails it opens again.
  */
 export class CircuitBreaker {
     private _threshold: number;
     private _timeout: number;
-    private _error_count: number;
+    private _failure_rate: number;
+    private _window: number;
+    private _half_open_probes: number;
+    private _state: CircuitState;
     private _reset_time: Date | null;
-    private _is_open: boolean;
-    private _disable_logging: boolean;
+    private _buckets: WindowBucket[];
+    private _probes_in_flight: number;
+    private _probe_successes: number;
+    private _logger: Logger;
+    private _events: TypedEventEmitter<CircuitBreakerEventMap>;
 
     /**
-     * @param threshold - Number of errors before circuit opens
-     * @param timeout - Time in seconds before circuit resets
-     * @param disable_logging - Whether to disable error logging
+     * @param threshold - Minimum number of failures within the window before the circuit opens
+     * @param timeout - Time in seconds before an open circuit turns half-open
+     * @param logger - Logger for state changes
+     * @param settings - Failure rate, window and probe settings
      */
     constructor(
     threshold: number = 5,
     timeout: number = 120, // 2 minutes
-    disable_logging: boolean = false
+    logger: Logger = new ConsoleLogger("circuit_breaker"),
+    settings: CircuitBreakerSettings = {}
     ) {
     this._threshold = threshold;
     this._timeout = timeout;
-    this._error_count = 0;
+    this._failure_rate = settings.failure_rate ?? 0.5;
+    this._window = settings.window ?? 60;
+    this._half_open_probes = settings.half_open_probes ?? 1;
+    this._state = CircuitState.closed;
     this._reset_time = null;
-    this._is_open = false;
-    this._disable_logging = disable_logging;
+    this._buckets = [];
+    this._probes_in_flight = 0;
+    this._probe_successes = 0;
+    this._logger = logger;
+    this._events = new TypedEventEmitter<CircuitBreakerEventMap>((error, event) => {
+        this._logger.error("Circuit breaker listener failed", { event: String(event), error: error });
+    });
+    }
+
+    /**
+     * Subscribe to state transitions.
+     *
+     * @returns A function that removes the listener
+     */
+    public on<K extends keyof CircuitBreakerEventMap>(
+    event: K,
+    listener: EventListener<CircuitBreakerEventMap, K>
+    ): () => void {
+    return this._events.on(event, listener);
+    }
+
+    /**
+     * Current state, turning an open breaker half-open once its timeout has passed.
+     */
+    public state(): CircuitState {
+    if (this._state === CircuitState.open && this._reset_time && utcNow() >= this._reset_time) {
+        this._state = CircuitState.half_open;
+        this._reset_time = null;
+        this._probes_in_flight = 0;
+        this._probe_successes = 0;
+        this._logger.info("Circuit breaker half-open, admitting probe requests", {
+            probes: this._half_open_probes
+        });
+        this._events.emit("half_opened", {});
+    }
+    return this._state;
+    }
+
+    /**
+     * Check if circuit breaker is open. A half-open breaker is not open.
+     */
+    public is_open(): boolean {
+    return this.state() === CircuitState.open;
     }
 
     /**
-     * Log error message if logging is enabled.
+     * Ask to send a request. Always granted while closed and never while open; while
+     * half-open, granted for up to half_open_probes requests at a time.
+     *
+     * A granted request must be followed by record_success, record_error or release.
      */
-    private _log_error(message: string): void {
-    if (!this._disable_logging) {
-        console.error(message);
+    public allow_request(): boolean {
+    const state = this.state();
+    if (state === CircuitState.closed) {
+        return true;
+    }
+    if (state === CircuitState.half_open && this._probes_in_flight + this._probe_successes < this._half_open_probes) {
+        this._probes_in_flight += 1;
+        return true;
+    }
+    return false;
+    }
+
+    /**
+     * Give back a request granted by allow_request without recording its outcome,
+     * e.g. because the caller aborted it.
+     */
+    public release(): void {
+    if (this._state === CircuitState.half_open) {
+        this._probes_in_flight = Math.max(0, this._probes_in_flight - 1);
+    }
+    }
+
+    /**
+     * Record a successful request.
+     */
+    public record_success(): void {
+    if (this._state === CircuitState.half_open) {
+        this._probes_in_flight = Math.max(0, this._probes_in_flight - 1);
+        this._probe_successes += 1;
+        if (this._probe_successes >= this._half_open_probes) {
+            this._close();
+            this._logger.info("Circuit breaker closed after successful probes", {});
+        }
+        return;
+    }
+    if (this._state === CircuitState.closed) {
+        this._current_bucket().requests += 1;
     }
     }
 
@@ -56,40 +228,246 @@ export class CircuitBreaker {
      * Record an error and update circuit breaker state.
      */
     public record_error(): void {
-    this._error_count += 1;
-    if (this._error_count >= this._threshold && !this._is_open) {
-        this._is_open = true;
-        const now = utcNow();
-        this._reset_time = new Date(now.getTime() + this._timeout * 1000);
-        this._log_error("Circuit breaker opened due to too many errors");
+    if (this._state === CircuitState.half_open) {
+        this._open(this._failures().failures);
+        return;
+    }
+    if (this._state !== CircuitState.closed) {
+        return;
+    }
+    const bucket = this._current_bucket();
+    bucket.requests += 1;
+    bucket.failures += 1;
+    const { requests, failures } = this._failures();
+    if (failures >= this._threshold && failures / requests >= this._failure_rate) {
+        this._open(failures);
     }
     }
 
     /**
-     * Check if circuit breaker is open and update state if needed.
+     * Requests and failures recorded within the sliding window.
      */
-    public is_open(): boolean {
-    if (!this._is_open) {
-        return false;
+    public window_stats(): { requests: number; failures: number } {
+    return this._failures();
     }
 
-    const now = utcNow();
-    if (this._reset_time && now >= this._reset_time) {
-        this._is_open = false;
-        this._error_count = 0;
-        this._reset_time = null;
-        return false;
+    /**
+     * Current state, for persistence.
+     */
+    public snapshot(): CircuitBreakerSnapshot {
+    this._prune();
+    return {
+        state: this._state,
+        reset_time: this._reset_time ? this._reset_time.getTime() : null,
+        buckets: this._buckets.map(bucket => ({ ...bucket }))
+    };
     }
 
-    return true;
+    /**
+     * Replace the current state with a persisted one. Emits no events.
+     *
+     * A half-open breaker is restored with no probes in flight.
+     */
+    public restore(snapshot: CircuitBreakerSnapshot): void {
+    this._state = snapshot.state;
+    this._reset_time = snapshot.reset_time !== null ? new Date(snapshot.reset_time) : null;
+    this._buckets = snapshot.buckets.map(bucket => ({ ...bucket }));
+    this._probes_in_flight = 0;
+    this._probe_successes = 0;
     }
 
     /**
      * Reset the circuit breaker state.
      */
     public reset(): void {
-    this._is_open = false;
-    this._error_count = 0;
+    this._close();
+    }
+
+    private _open(error_count: number): void {
+    this._state = CircuitState.open;
+    this._reset_time = new Date(utcNow().getTime() + this._timeout * 1000);
+    this._probes_in_flight = 0;
+    this._probe_successes = 0;
+    this._logger.error("Circuit breaker opened due to too many errors", {
+        error_count: error_count,
+        reset_time: this._reset_time.toISOString()
+    });
+    this._events.emit("opened", { error_count: error_count, reset_time: this._reset_time });
+    }
+
+    private _close(): void {
+    const was_closed = this._state === CircuitState.closed;
+    this._state = CircuitState.closed;
     this._reset_time = null;
+    this._buckets = [];
+    this._probes_in_flight = 0;
+    this._probe_successes = 0;
+    if (!was_closed) {
+        this._events.emit("closed", {});
+    }
+    }
+
+    private _current_bucket(): WindowBucket {
+    this._prune();
+    const size = this._window * 1000 / WINDOW_BUCKETS;
+    const now = utcNow().getTime();
+    const start = now - (now % size);
+    let bucket = this._buckets[this._buckets.length - 1];
+    if (!bucket || bucket.start !== start) {
+        bucket = { start: start, requests: 0, failures: 0 };
+        this._buckets.push(bucket);
+    }
+    return bucket;
+    }
+
+    private _prune(): void {
+    const horizon = utcNow().getTime() - this._window * 1000;
+    const size = this._window * 1000 / WINDOW_BUCKETS;
+    // A bucket counts while any part of it is inside the window
+    this._buckets = this._buckets.filter(bucket => bucket.start + size > horizon);
+    }
+
+    private _failures(): { requests: number; failures: number } {
+    this._prune();
+    let requests = 0;
+    let failures = 0;
+    for (const bucket of this._buckets) {
+        requests += bucket.requests;
+        failures += bucket.failures;
+    }
+    return { requests, failures };
+    }
+}
+
+/**
+ * Circuit breakers by key, typically the endpoint URL.
+ *
+ * Clients given the same registry share one breaker per endpoint, so an outage trips it
+ * after threshold failures across all of them rather than per client. The first client to
+ * use an endpoint decides the breaker's settings.
+ */
+export class CircuitBreakerRegistry {
+    private _breakers: Map<string, CircuitBreaker>;
+
+    constructor() {
+    this._breakers = new Map();
+    }
+
+    /**
+     * Breaker for a key, created with the factory if there is none yet.
+     */
+    public get(key: string, create: () => CircuitBreaker): CircuitBreaker {
+    let breaker = this._breakers.get(key);
+    if (!breaker) {
+        breaker = create();
+        this._breakers.set(key, breaker);
+    }
+    return breaker;
+    }
+
+    /**
+     * Whether a breaker exists for the key.
+     */
+    public has(key: string): boolean {
+    return this._breakers.has(key);
+    }
+
+    /**
+     * Keys and breakers in the registry.
+     */
+    public entries(): [string, CircuitBreaker][] {
+    return [...this._breakers];
+    }
+
+    /**
+     * Remove every breaker, e.g. between tests.
+     */
+    public clear(): void {
+    this._breakers.clear();
+    }
+}
+
+/**
+ * Process-wide registry used by clients with circuit_breaker.shared set.
+ */
+export const SHARED_BREAKER_REGISTRY = new CircuitBreakerRegistry();
+
+/**
+ * Ordered list of endpoints with failover on consecutive failures.
+ *
+ * Requests go to the current endpoint. After `threshold` consecutive failures
+ * the pool moves on to the next endpoint, wrapping around after the last one.
+ */
+export class EndpointPool {
+    private _endpoints: string[];
+    private _threshold: number;
+    private _index: number;
+    private _failure_count: number;
+    private _logger: Logger;
+
+    /**
+     * @param endpoints - Endpoint URLs in order of preference
+     * @param threshold - Consecutive failures before failing over
+     * @param logger - Logger for failover events
+     */
+    constructor(
+    endpoints: string[],
+    threshold: number = 3,
+    logger: Logger = new ConsoleLogger("endpoint_pool")
+    ) {
+    if (!endpoints.length) {
+        throw new Error("EndpointPool requires at least one endpoint");
     }
-}
\ No newline at end of file
+    this._endpoints = [...endpoints];
+    this._threshold = threshold;
+    this._index = 0;
+    this._failure_count = 0;
+    this._logger = logger;
+    }
+
+    /**
+     * Endpoint that the next request should use.
+     */
+    public current(): string {
+    return this._endpoints[this._index];
+    }
+
+    /**
+     * Record a successful request against the current endpoint.
+     */
+    public record_success(): void {
+    this._failure_count = 0;
+    }
+
+    /**
+     * Record a failed request and fail over if the threshold is reached.
+     */
+    public record_failure(): void {
+    this._failure_count += 1;
+    if (this._failure_count >= this._threshold && this._endpoints.length > 1) {
+        const failed = this.current();
+        this._index = (this._index + 1) % this._endpoints.length;
+        this._failure_count = 0;
+        this._logger.warn("Endpoint failing over", {
+            failed_endpoint: failed,
+            endpoint: this.current(),
+            failure_count: this._threshold
+        });
+    }
+    }
+
+    /**
+     * All endpoints in order of preference.
+     */
+    public endpoints(): string[] {
+    return [...this._endpoints];
+    }
+
+    /**
+     * Return to the first endpoint and clear the failure count.
+     */
+    public reset(): void {
+    this._index = 0;
+    this._failure_count = 0;
+    }
+}
@@ -0,0 +1,165 @@
+/**
+ * Ad injection into streamed LLM replies.
+ *
+ * inject_ad passes the text chunks of a reply through and inserts an ad,
+ * rendered with a context template, at a natural boundary: the end of the
+ * first paragraph, after a number of sentences, or as a trailing card once the
+ * stream ends. The ad comes out as its own part, carrying the impression
+ * metadata, so a UI can render it differently and report the impression.
+ */
+
+import { Ad, SessionInfo } from './types.js';
+import { BuiltinTemplate, ContextTemplate } from './templating.js';
+
+/**
+ * Where the ad is inserted into the reply.
+ *
+ * Attributes:
+ *     paragraph_end: After the first paragraph, i.e. the first blank line.
+ *     after_sentences: After the number of sentences given by the sentences option.
+ *     trailing: After the whole reply, as a separate card.
+ *
+ * When the reply ends before the boundary is reached, the ad is added at its end.
+ */
+export enum InsertionPoint {
+  paragraph_end = "paragraph_end",
+  after_sentences = "after_sentences",
+  trailing = "trailing"
+}
+
+/**
+ * A streamed chunk in the OpenAI chat completions format.
+ */
+export interface ChatCompletionChunk {
+  choices: { delta?: { content?: string | null } }[];
+}
+
+/**
+ * A chunk of a streamed reply: plain text or an OpenAI-style chunk.
+ */
+export type StreamChunk = string | ChatCompletionChunk;
+
+/**
+ * A part of the reply produced by inject_ad.
+ *
+ * Attributes:
+ *     type ("text" | "ad"): Whether the part is reply text or the inserted ad.
+ *     text (string): Text to display, including the whitespace around an inserted ad.
+ *     ad (Ad): The inserted ad; ad parts only.
+ *     position (InsertionPoint): Where the ad ended up; ad parts only. trailing when the
+ *         reply ended before the requested boundary.
+ *     offset (number): Characters of reply text before the ad; ad parts only.
+ */
+export type StreamPart =
+  | { type: "text"; text: string }
+  | { type: "ad"; text: string; ad: Ad; position: InsertionPoint; offset: number };
+
+/**
+ * Options of inject_ad.
+ *
+ * Attributes:
+ *     position (InsertionPoint): Where the ad is inserted. Defaults to paragraph_end.
+ *     sentences (number): Sentences before the ad with after_sentences. Defaults to 2.
+ *     template (string | BuiltinTemplate | ContextTemplate): How the ad is rendered.
+ *         Defaults to the inline built-in template, the placement_template and link.
+ *     session (SessionInfo): Session values available to the template.
+ */
+export interface StreamInjectionOptions {
+  position?: InsertionPoint;
+  sentences?: number;
+  template?: string | BuiltinTemplate | ContextTemplate;
+  session?: SessionInfo;
+}
+
+const SENTENCE_END = /[.!?]/;
+
+/**
+ * Text content of a stream chunk; empty for chunks without content.
+ */
+export function chunk_text(chunk: StreamChunk): string {
+  if (typeof chunk === "string") {
+    return chunk;
+  }
+  return chunk.choices?.[0]?.delta?.content ?? "";
+}
+
+/**
+ * Pass a streamed reply through, inserting an ad at the requested boundary.
+ *
+ * The ad can be given as a function, called once when the boundary is reached, so an ad that
+ * arrives while the reply streams is still used. Nothing is inserted when there is no ad.
+ *
+ * @param stream - Chunks of the reply
+ * @param ad - The ad, or a function returning it when needed
+ * @param options - Where and how the ad is inserted
+ */
+export async function* inject_ad(
+  stream: AsyncIterable<StreamChunk>,
+  ad: Ad | null | (() => Ad | null),
+  options: StreamInjectionOptions = {}
+): AsyncGenerator<StreamPart> {
+  const position = options.position ?? InsertionPoint.paragraph_end;
+  const sentences = options.sentences ?? 2;
+  const template = options.template instanceof ContextTemplate
+    ? options.template
+    : new ContextTemplate(options.template ?? BuiltinTemplate.inline);
+  const render = (at: InsertionPoint, offset: number, before: string, after: string): StreamPart | null => {
+    const resolved = typeof ad === "function" ? ad() : ad;
+    if (!resolved) {
+      return null;
+    }
+    const text = template.render({ ad: resolved, session: options.session });
+    return { type: "ad", text: before + text + after, ad: resolved, position: at, offset: offset };
+  };
+
+  let inserted = false;
+  let offset = 0;
+  let previous = "";
+  let sentence_count = 0;
+  for await (const chunk of stream) {
+    const text = chunk_text(chunk);
+    if (!text) {
+      continue;
+    }
+    let boundary = -1;
+    if (!inserted && position !== InsertionPoint.trailing) {
+      for (let i = 0; i < text.length && boundary < 0; i++) {
+        const char = text[i];
+        if (position === InsertionPoint.paragraph_end && char === "\n" && previous === "\n") {
+          boundary = i + 1;
+        } else if (position === InsertionPoint.after_sentences && /\s/.test(char) && SENTENCE_END.test(previous)) {
+          sentence_count += 1;
+          if (sentence_count >= sentences) {
+            boundary = i;
+          }
+        }
+        previous = char;
+      }
+    }
+    if (boundary < 0) {
+      offset += text.length;
+      yield { type: "text", text: text };
+      continue;
+    }
+    inserted = true;
+    if (boundary > 0) {
+      yield { type: "text", text: text.slice(0, boundary) };
+    }
+    const part = position === InsertionPoint.paragraph_end
+      ? render(position, offset + boundary, "", "\n\n")
+      : render(position, offset + boundary, " ", "");
+    if (part) {
+      yield part;
+    }
+    offset += text.length;
+    if (boundary < text.length) {
+      yield { type: "text", text: text.slice(boundary) };
+    }
+  }
+  if (!inserted) {
+    const part = render(InsertionPoint.trailing, offset, offset > 0 ? "\n\n" : "", "");
+    if (part) {
+      yield part;
+    }
+  }
+}
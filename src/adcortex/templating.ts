@@ -0,0 +1,267 @@
+/**
+ * Context templating for ADCortex API clients.
+ *
+ * Templates turn an ad into text for an LLM prompt. The syntax is:
+ *
+ *     {ad_title}                       an ad field (ad_title, ad_description, placement_template, link)
+ *     {session.character_name}         a dotted path into ad, session, user or platform
+ *     {ad_title|raw}                   a value inserted without escaping
+ *     {#if ad.link}...{else}...{/if}   a conditional section; {#unless ...} negates it
+ *     {{ and }}                        literal braces
+ *
+ * Templates are parsed and validated once, so unknown placeholders and
+ * unbalanced sections are reported when the client is constructed.
+ */
+
+import { Ad, SessionInfo } from './types.js';
+import { AdcortexTemplateError } from './errors.js';
+
+/**
+ * Escaping applied to inserted values.
+ *
+ * Attributes:
+ *     none: Values are inserted as-is.
+ *     markdown: Markdown control characters are backslash-escaped.
+ *     html: HTML special characters are replaced with entities.
+ *     json: Values are escaped for use inside a JSON string literal.
+ */
+export enum EscapeMode {
+  none = "none",
+  markdown = "markdown",
+  html = "html",
+  json = "json"
+}
+
+/**
+ * Names of the built-in templates.
+ *
+ * Attributes:
+ *     default: The historical default template.
+ *     system_prompt: Instructions for a system prompt, telling the model how to weave the ad in.
+ *     inline: A short sponsored line to append to a reply.
+ */
+export enum BuiltinTemplate {
+  default = "default",
+  system_prompt = "system_prompt",
+  inline = "inline"
+}
+
+/**
+ * Default template used by create_context.
+ */
+export const DEFAULT_CONTEXT_TEMPLATE = "Here is a product the user might like: {ad_title} - {ad_description}: here is a sample way to present it: {placement_template}";
+
+/**
+ * Source of each built-in template.
+ */
+export const BUILTIN_TEMPLATES: Record<BuiltinTemplate, string> = {
+  [BuiltinTemplate.default]: DEFAULT_CONTEXT_TEMPLATE,
+  [BuiltinTemplate.system_prompt]:
+    "You are {session.character_name}. If it fits the conversation naturally, mention this product to the user: "
+    + "{ad_title} - {ad_description}. "
+    + "A sample way to present it: \"{placement_template}\". "
+    + "{#if link}Link: {link}. {/if}"
+    + "Stay in character, keep the mention brief and do not mention it again if the user is not interested. "
+    + "Reply in the user's language ({user.language}).",
+  [BuiltinTemplate.inline]: "{placement_template}{#if link} ({link}){/if}"
+};
+
+/**
+ * Values available to a template.
+ *
+ * Attributes:
+ *     ad (Ad): The ad being presented.
+ *     session (SessionInfo): Session, user and platform information, when available.
+ */
+export interface TemplateValues {
+  ad: Ad;
+  session?: SessionInfo;
+}
+
+const AD_FIELDS = ["ad_title", "ad_description", "placement_template", "link"];
+const VARIABLES: Record<string, string[]> = {
+  ad: AD_FIELDS,
+  session: ["session_id", "character_name", "character_metadata"],
+  user: ["user_id", "age", "gender", "location", "language", "interests"],
+  platform: ["name", "varient"]
+};
+
+type TemplateNode =
+  | { kind: "text"; text: string }
+  | { kind: "var"; path: string[]; raw: boolean }
+  | { kind: "if"; path: string[]; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+const TOKEN_PATTERN = /\{\{|\}\}|\{([^{}]*)\}/g;
+
+function resolve_path(expression: string, source: string, position: number): string[] {
+  const parts = expression.trim().split(".");
+  if (parts.length === 1 && AD_FIELDS.includes(parts[0])) {
+    return ["ad", parts[0]];
+  }
+  if (parts.length === 2 && VARIABLES[parts[0]]?.includes(parts[1])) {
+    return parts;
+  }
+  throw new AdcortexTemplateError(`Unknown placeholder {${expression}}`, source, position);
+}
+
+function parse(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { node: Extract<TemplateNode, { kind: "if" }>; in_else: boolean; position: number }[] = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    return top ? (top.in_else ? top.node.otherwise : top.node.then) : root;
+  };
+  const push_text = (text: string) => {
+    if (text) {
+      current().push({ kind: "text", text });
+    }
+  };
+
+  let last = 0;
+  for (const match of source.matchAll(TOKEN_PATTERN)) {
+    const position = match.index ?? 0;
+    push_text(source.slice(last, position));
+    last = position + match[0].length;
+
+    if (match[0] === "{{") {
+      push_text("{");
+      continue;
+    }
+    if (match[0] === "}}") {
+      push_text("}");
+      continue;
+    }
+
+    const tag = match[1].trim();
+    const section = /^#(if|unless)\s+(.+)$/.exec(tag);
+    if (section) {
+      const node: Extract<TemplateNode, { kind: "if" }> = {
+        kind: "if",
+        path: resolve_path(section[2], source, position),
+        negate: section[1] === "unless",
+        then: [],
+        otherwise: []
+      };
+      current().push(node);
+      stack.push({ node, in_else: false, position });
+    } else if (tag === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.in_else) {
+        throw new AdcortexTemplateError("Unexpected {else}", source, position);
+      }
+      top.in_else = true;
+    } else if (tag === "/if" || tag === "/unless") {
+      const top = stack.pop();
+      if (!top || (top.node.negate ? "/unless" : "/if") !== tag) {
+        throw new AdcortexTemplateError(`Unexpected {${tag}}`, source, position);
+      }
+    } else {
+      const [expression, ...filters] = tag.split("|").map(part => part.trim());
+      const unknown = filters.find(filter => filter !== "raw");
+      if (unknown) {
+        throw new AdcortexTemplateError(`Unknown filter |${unknown}`, source, position);
+      }
+      current().push({ kind: "var", path: resolve_path(expression, source, position), raw: filters.includes("raw") });
+    }
+  }
+  push_text(source.slice(last));
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new AdcortexTemplateError("Unclosed section", source, unclosed.position);
+  }
+  return root;
+}
+
+function lookup(path: string[], values: TemplateValues): unknown {
+  const [scope, field] = path;
+  const session = values.session;
+  const scopes: Record<string, Record<string, unknown> | undefined> = {
+    ad: values.ad,
+    session: session,
+    user: session?.user_info,
+    platform: session?.platform
+  };
+  return scopes[scope]?.[field];
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.map(String).join(", ");
+  }
+  return String(value);
+}
+
+function is_truthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return Boolean(value);
+}
+
+/**
+ * Escape a value for the given mode.
+ */
+export function escape_value(value: string, mode: EscapeMode): string {
+  switch (mode) {
+    case EscapeMode.markdown:
+      return value.replace(/([\\`*_[\]()#|<>~])/g, "\\$1");
+    case EscapeMode.html:
+      return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+    case EscapeMode.json:
+      return JSON.stringify(value).slice(1, -1);
+    default:
+      return value;
+  }
+}
+
+/**
+ * A parsed and validated context template.
+ */
+export class ContextTemplate {
+  public readonly source: string;
+  public readonly escape: EscapeMode;
+  private _nodes: TemplateNode[];
+
+  /**
+   * @param source - Template text, or the name of a built-in template
+   * @param escape - Escaping applied to inserted values
+   * @throws AdcortexTemplateError if the template is invalid
+   */
+  constructor(source: string | BuiltinTemplate, escape: EscapeMode = EscapeMode.none) {
+    this.source = BUILTIN_TEMPLATES[source as BuiltinTemplate] ?? source;
+    this.escape = escape;
+    this._nodes = parse(this.source);
+  }
+
+  /**
+   * Render the template. Placeholders whose value is unavailable render as empty strings.
+   */
+  public render(values: TemplateValues): string {
+    return this._render(this._nodes, values);
+  }
+
+  private _render(nodes: TemplateNode[], values: TemplateValues): string {
+    let output = "";
+    for (const node of nodes) {
+      if (node.kind === "text") {
+        output += node.text;
+      } else if (node.kind === "var") {
+        const text = stringify(lookup(node.path, values));
+        output += node.raw ? text : escape_value(text, this.escape);
+      } else {
+        const truthy = is_truthy(lookup(node.path, values)) !== node.negate;
+        output += this._render(truthy ? node.then : node.otherwise, values);
+      }
+    }
+    return output;
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Test helpers for applications integrating the ADCortex SDK.
+ *
+ * Import from 'adcortex-js/testing'. Nothing here touches the network.
+ */
+
+import { MockAdcortexServer, sample_ad, sample_session_info } from './mock_server.js';
+import type { MockResponse, MockServerOptions, RecordedRequest } from './mock_server.js';
+import { InMemoryTransport } from './transport.js';
+import type { InMemoryHandler } from './transport.js';
+import { AdRequestSchema } from './types.js';
+import type { AdRequest } from './types.js';
+
+export {
+    MockAdcortexServer,
+    sample_ad,
+    sample_session_info,
+    InMemoryTransport,
+    AdRequestSchema
+};
+
+export type {
+    MockResponse,
+    MockServerOptions,
+    RecordedRequest,
+    InMemoryHandler,
+    AdRequest
+};
@@ -0,0 +1,263 @@
+/**
+ * Impression and click tracking for ADCortex API clients.
+ *
+ * Events are buffered, deduplicated and sent in batches through the client's
+ * transport. Events that fail to send stay buffered with their original
+ * event_id, so the server can deduplicate them if a retried batch was in fact
+ * received.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { Ad } from './types.js';
+import { ad_key } from './selection.js';
+import { EndpointPool } from './state.js';
+import { Transport, TransportError } from './transport.js';
+import { Logger } from './logger.js';
+
+// Recently tracked events remembered for deduplication; older ones are forgotten
+const MAX_SEEN_EVENTS = 1000;
+
+// Client errors that may succeed when retried; other 4xx batches are dropped
+const RETRYABLE_CLIENT_STATUSES = [408, 429];
+
+/**
+ * Tracking event type enumeration.
+ *
+ * Attributes:
+ *     impression: The ad was shown to the user.
+ *     click: The user clicked the ad.
+ */
+export enum TrackingEventType {
+  impression = "impression",
+  click = "click"
+}
+
+/**
+ * A single tracking event as sent to the API.
+ *
+ * Attributes:
+ *     event_id (string): Unique id, stable across retries.
+ *     event_type (TrackingEventType): Impression or click.
+ *     rguid (string | null): RGUID of the ad request that returned the ad.
+ *     session_id (string): Session the ad was shown in.
+ *     user_id (string | null): User the ad was shown to, null in privacy mode.
+ *     ad_title (string): Title of the ad.
+ *     link (string): Link of the ad.
+ *     timestamp (number): Unix time in seconds when the event happened.
+ */
+export interface TrackingEvent {
+  event_id: string;
+  event_type: TrackingEventType;
+  rguid: string | null;
+  session_id: string;
+  user_id: string | null;
+  ad_title: string;
+  link: string;
+  timestamp: number;
+}
+
+/**
+ * Settings of an EventTracker.
+ *
+ * Attributes:
+ *     endpoints (string[]): Tracking endpoints in order of preference.
+ *     headers (Record<string, string>): Request headers, including the API key.
+ *     timeout (number): Per-request timeout in seconds.
+ *     batch_size (number): Pending events that trigger an immediate flush.
+ *     flush_interval (number): Seconds after the first pending event before a flush.
+ *     max_pending (number): Maximum buffered events; the oldest are dropped beyond it.
+ *     failover_threshold (number): Consecutive failures before switching endpoint.
+ */
+export interface EventTrackerSettings {
+  endpoints: string[];
+  headers: Record<string, string>;
+  timeout: number;
+  batch_size: number;
+  flush_interval: number;
+  max_pending: number;
+  failover_threshold: number;
+}
+
+/**
+ * Buffers tracking events and flushes them in batches.
+ */
+export class EventTracker {
+  private _transport: Transport;
+  private _settings: EventTrackerSettings;
+  private _endpoints: EndpointPool;
+  private _logger: Logger;
+  private _pending: TrackingEvent[];
+  private _seen: Set<string>;
+  private _timer: ReturnType<typeof setTimeout> | null;
+  private _flushing: Promise<boolean> | null;
+
+  /**
+   * @param transport - Transport used to send batches
+   * @param settings - Tracker settings
+   * @param logger - Logger for flush results
+   */
+  constructor(transport: Transport, settings: EventTrackerSettings, logger: Logger) {
+    this._transport = transport;
+    this._settings = settings;
+    this._endpoints = new EndpointPool(settings.endpoints, settings.failover_threshold, logger);
+    this._logger = logger;
+    this._pending = [];
+    this._seen = new Set();
+    this._timer = null;
+    this._flushing = null;
+  }
+
+  /**
+   * Record an event unless the same event was already recorded.
+   *
+   * Only the last MAX_SEEN_EVENTS distinct events are remembered, so memory stays bounded in
+   * long-running processes.
+   *
+   * @returns true if the event was recorded, false if it was a duplicate
+   */
+  public track(
+    event_type: TrackingEventType,
+    ad: Ad,
+    rguid: string | null,
+    session_id: string,
+    user_id: string | null
+  ): boolean {
+    const dedup_key = `${event_type}\u0000${session_id}\u0000${rguid}\u0000${ad_key(ad)}`;
+    if (this._seen.has(dedup_key)) {
+      // Keep recently repeated events remembered the longest
+      this._seen.delete(dedup_key);
+      this._seen.add(dedup_key);
+      return false;
+    }
+    this._seen.add(dedup_key);
+    if (this._seen.size > MAX_SEEN_EVENTS) {
+      this._seen.delete(this._seen.values().next().value!);
+    }
+
+    this._pending.push({
+      event_id: uuidv4(),
+      event_type: event_type,
+      rguid: rguid,
+      session_id: session_id,
+      user_id: user_id,
+      ad_title: ad.ad_title,
+      link: ad.link,
+      timestamp: new Date().getTime() / 1000
+    });
+    this._trim();
+
+    if (this._pending.length >= this._settings.batch_size) {
+      void this.flush();
+    } else {
+      this._schedule();
+    }
+    return true;
+  }
+
+  /**
+   * Events waiting to be sent.
+   */
+  public pending(): TrackingEvent[] {
+    return [...this._pending];
+  }
+
+  /**
+   * Send all pending events, including events tracked while the flush is in progress.
+   *
+   * Events of a batch that failed with a network error, a timeout, a 5xx, 408 or 429 stay
+   * pending for the next flush. Batches rejected with any other 4xx are dropped and logged.
+   */
+  public async flush(): Promise<void> {
+    let sent: boolean;
+    do {
+      if (!this._flushing) {
+        this._flushing = this._flush().finally(() => {
+          this._flushing = null;
+        });
+      }
+      sent = await this._flushing;
+    } while (sent && this._pending.length);
+  }
+
+  /**
+   * Cancel the scheduled flush. Pending events are kept.
+   */
+  public close(): void {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = null;
+    }
+  }
+
+  /**
+   * Send the pending events as one batch.
+   *
+   * @returns false if the batch failed and was kept for a later retry
+   */
+  private async _flush(): Promise<boolean> {
+    this.close();
+    if (!this._pending.length) {
+      return true;
+    }
+    const batch = this._pending.splice(0, this._pending.length);
+    try {
+      await this._transport.post({
+        url: this._endpoints.current(),
+        body: { events: batch },
+        headers: this._settings.headers,
+        timeout: this._settings.timeout * 1000
+      });
+      this._endpoints.record_success();
+      this._logger.debug("Tracking events sent", { event_count: batch.length });
+      return true;
+    } catch (e) {
+      if (is_rejected(e)) {
+        this._logger.error("Tracking batch rejected, events dropped", {
+          event_count: batch.length,
+          status: e.status,
+          error: e
+        });
+        return true;
+      }
+      this._endpoints.record_failure();
+      // Put the batch back in front of anything tracked meanwhile, keeping event ids
+      this._pending.unshift(...batch);
+      this._trim();
+      this._logger.warn("Tracking flush failed, events kept for retry", {
+        event_count: batch.length,
+        error: e
+      });
+      this._schedule();
+      return false;
+    }
+  }
+
+  private _schedule(): void {
+    if (this._timer || !this._pending.length) {
+      return;
+    }
+    this._timer = setTimeout(() => {
+      this._timer = null;
+      void this.flush();
+    }, this._settings.flush_interval * 1000);
+    // Don't keep a Node process alive just to flush tracking events
+    const timer = this._timer as { unref?: () => void };
+    timer.unref?.();
+  }
+
+  private _trim(): void {
+    const overflow = this._pending.length - this._settings.max_pending;
+    if (overflow > 0) {
+      this._pending.splice(0, overflow);
+      this._logger.warn("Tracking buffer full, dropped oldest events", { dropped: overflow });
+    }
+  }
+}
+
+function is_rejected(error: unknown): error is TransportError {
+  if (!(error instanceof TransportError) || error.status === null) {
+    return false;
+  }
+  return error.status >= 400 && error.status < 500 && !RETRYABLE_CLIENT_STATUSES.includes(error.status);
+}
@@ -0,0 +1,420 @@
+/**
+ * HTTP transport layer for ADCortex API clients.
+ *
+ * The chat clients never talk to an HTTP library directly; they hand a
+ * TransportRequest to a Transport and get a TransportResponse back. This keeps
+ * the clients usable on Node, in browsers, on edge runtimes and in tests.
+ */
+
+/**
+ * A single POST request issued by a chat client.
+ *
+ * Attributes:
+ *     url (string): Absolute URL of the endpoint.
+ *     body (Record<string, any>): JSON-serialisable request payload.
+ *     headers (Record<string, string>): Request headers.
+ *     timeout (number): Per-attempt timeout in milliseconds.
+ *     deadline (number): Unix time in milliseconds by which the request, retries
+ *         included, must complete. Optional.
+ *     signal (AbortSignal): Cancels the request in flight and any retry. Optional.
+ */
+export interface TransportRequest {
+  url: string;
+  body: Record<string, any>;
+  headers: Record<string, string>;
+  timeout: number;
+  deadline?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A response returned by a transport.
+ *
+ * Attributes:
+ *     status (number): HTTP status code.
+ *     data (any): Parsed JSON body, or null when the body is empty.
+ *     headers (Record<string, string>): Response headers with lower-cased names.
+ */
+export interface TransportResponse {
+  status: number;
+  data: any;
+  headers: Record<string, string>;
+}
+
+/**
+ * Contract implemented by every transport.
+ *
+ * Implementations resolve with the response for 2xx statuses and reject with a
+ * TransportError for timeouts, network failures, non-2xx statuses and aborted
+ * requests.
+ */
+export interface Transport {
+  post(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Failure category reported by a TransportError.
+ */
+export type TransportErrorCode = "TIMEOUT" | "NETWORK" | "HTTP_ERROR" | "ABORTED";
+
+/**
+ * Error raised by transports when a request does not produce a 2xx response.
+ */
+export class TransportError extends Error {
+  public readonly code: TransportErrorCode;
+  public readonly response: TransportResponse | null;
+
+  /**
+   * @param message - Human readable description
+   * @param code - Failure category
+   * @param response - The HTTP response, when one was received
+   */
+  constructor(message: string, code: TransportErrorCode, response: TransportResponse | null = null) {
+    super(message);
+    this.name = "TransportError";
+    this.code = code;
+    this.response = response;
+  }
+
+  /**
+   * HTTP status of the failed response, or null if none was received.
+   */
+  public get status(): number | null {
+    return this.response ? this.response.status : null;
+  }
+}
+
+/**
+ * Throw a TransportError if the response status is not 2xx.
+ */
+export function assert_success(response: TransportResponse): TransportResponse {
+  if (response.status < 200 || response.status >= 300) {
+    throw new TransportError(
+      `Request failed with status code ${response.status}`,
+      "HTTP_ERROR",
+      response
+    );
+  }
+  return response;
+}
+
+/**
+ * Error for a request cancelled through its AbortSignal.
+ */
+export function aborted_error(signal: AbortSignal): TransportError {
+  const reason = signal.reason instanceof Error ? `: ${signal.reason.message}` : "";
+  return new TransportError(`Request aborted${reason}`, "ABORTED");
+}
+
+/**
+ * Parse a Retry-After header value into seconds.
+ */
+export function parse_retry_after(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, (date - Date.now()) / 1000);
+  }
+  return null;
+}
+
+/**
+ * When and how a transport retries a failed request.
+ *
+ * Attributes:
+ *     retries (number): Number of retries after the first attempt.
+ *     base_delay (number): Base of the exponential backoff in milliseconds.
+ *     max_delay (number): Upper bound of the backoff in milliseconds, before jitter.
+ *     jitter (number): Fraction of the backoff added at random, between 0 and 1.
+ *     retry_on_status (number[]): HTTP statuses that are retried.
+ *     retry_on_network (boolean): Whether timeouts and network errors are retried.
+ *     respect_retry_after (boolean): Whether a Retry-After header replaces the backoff.
+ *     max_retry_after (number): Longest Retry-After in seconds that is waited for;
+ *         longer ones fail the request instead.
+ */
+export interface RetrySettings {
+  retries: number;
+  base_delay: number;
+  max_delay: number;
+  jitter: number;
+  retry_on_status: number[];
+  retry_on_network: boolean;
+  respect_retry_after: boolean;
+  max_retry_after: number;
+}
+
+/**
+ * Retry settings of transports built without explicit ones.
+ */
+export const DEFAULT_RETRY_SETTINGS: RetrySettings = {
+  retries: 3,
+  base_delay: 100,
+  max_delay: 5000,
+  jitter: 0.2,
+  retry_on_status: [408, 429, 500, 502, 503, 504],
+  retry_on_network: true,
+  respect_retry_after: true,
+  max_retry_after: 30
+};
+
+/**
+ * Resolve the retry argument of a transport constructor.
+ *
+ * A number is the retry count, kept for compatibility with earlier releases.
+ */
+export function resolve_retry_settings(retry: number | Partial<RetrySettings>, base_delay?: number): RetrySettings {
+  const settings = typeof retry === "number" ? { retries: retry } : retry;
+  return {
+    ...DEFAULT_RETRY_SETTINGS,
+    ...(base_delay !== undefined ? { base_delay } : {}),
+    ...settings
+  };
+}
+
+/**
+ * Milliseconds to wait before retrying a failed attempt, or null if it must not be retried.
+ *
+ * @param error - Error of the failed attempt
+ * @param retry_number - Number of the upcoming retry, starting at 1
+ * @param settings - Retry settings
+ */
+export function retry_delay(error: unknown, retry_number: number, settings: RetrySettings): number | null {
+  if (!(error instanceof TransportError) || error.code === "ABORTED") {
+    return null;
+  }
+  if (error.code !== "HTTP_ERROR") {
+    return settings.retry_on_network ? backoff(retry_number, settings) : null;
+  }
+  if (error.status === null || !settings.retry_on_status.includes(error.status)) {
+    return null;
+  }
+  const retry_after = settings.respect_retry_after
+    ? parse_retry_after(error.response?.headers["retry-after"])
+    : null;
+  if (retry_after === null) {
+    return backoff(retry_number, settings);
+  }
+  return retry_after <= settings.max_retry_after ? retry_after * 1000 : null;
+}
+
+function backoff(retry_number: number, settings: RetrySettings): number {
+  // Same curve as axios-retry's exponentialDelay, capped and with configurable jitter
+  const delay = Math.min(2 ** retry_number * settings.base_delay, settings.max_delay);
+  return delay + delay * settings.jitter * Math.random();
+}
+
+/**
+ * Run attempts of a request until one succeeds, retrying as the settings allow.
+ *
+ * The per-attempt timeout is shortened to fit the request deadline, and no retry is
+ * started that could not begin before it. Aborting the request's signal ends the
+ * wait between attempts. Transports share this loop so they retry the same way.
+ *
+ * @param request - The request
+ * @param settings - Retry settings
+ * @param attempt - Makes one attempt and resolves with the response, whatever its status
+ */
+export async function post_with_retries(
+  request: TransportRequest,
+  settings: RetrySettings,
+  attempt: (request: TransportRequest) => Promise<TransportResponse>
+): Promise<TransportResponse> {
+  let retry_number = 0;
+  while (true) {
+    if (request.signal?.aborted) {
+      throw aborted_error(request.signal);
+    }
+    const remaining = request.deadline === undefined ? Infinity : request.deadline - Date.now();
+    if (remaining <= 0) {
+      throw new TransportError("Request deadline exceeded", "TIMEOUT");
+    }
+    try {
+      return assert_success(await attempt({ ...request, timeout: Math.min(request.timeout, remaining) }));
+    } catch (e) {
+      const delay = retry_number < settings.retries ? retry_delay(e, retry_number + 1, settings) : null;
+      if (delay === null || (request.deadline !== undefined && Date.now() + delay >= request.deadline)) {
+        throw e;
+      }
+      retry_number += 1;
+      await sleep(delay, request.signal);
+    }
+  }
+}
+
+/**
+ * Settle with the promise, or reject with an ABORTED TransportError as soon as the signal aborts.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => reject(aborted_error(signal));
+    if (signal.aborted) {
+      abort();
+    }
+    signal.addEventListener("abort", abort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", abort));
+  });
+}
+
+/**
+ * Wait for ms milliseconds, rejecting with an ABORTED TransportError if the signal aborts first.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(aborted_error(signal));
+      return;
+    }
+    const abort = () => {
+      clearTimeout(timer);
+      reject(aborted_error(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", abort, { once: true });
+  });
+}
+
+function headers_to_record(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    record[key.toLowerCase()] = value;
+  });
+  return record;
+}
+
+/**
+ * Default transport built on the global `fetch` API.
+ *
+ * Works on Node 18+, browsers and edge runtimes. Failed attempts are retried
+ * as the retry settings allow: by default timeouts, network errors and the
+ * 408, 429, 500, 502, 503 and 504 statuses, after a jittered exponential
+ * backoff or the server's Retry-After.
+ */
+export class FetchTransport implements Transport {
+  private _fetch: typeof fetch;
+  private _retry: RetrySettings;
+
+  /**
+   * @param retry - Retry settings, or the number of retries after the first attempt
+   * @param fetch_impl - fetch implementation, defaults to the global fetch
+   * @param base_delay - Base of the exponential backoff in milliseconds, when retry is a number
+   */
+  constructor(retry: number | Partial<RetrySettings> = 3, fetch_impl?: typeof fetch, base_delay?: number) {
+    const resolved = fetch_impl ?? (typeof fetch !== "undefined" ? fetch : undefined);
+    if (!resolved) {
+      throw new Error("No fetch implementation available; pass one to FetchTransport");
+    }
+    this._fetch = resolved;
+    this._retry = resolve_retry_settings(retry, base_delay);
+  }
+
+  public post(request: TransportRequest): Promise<TransportResponse> {
+    return post_with_retries(request, this._retry, attempt => this._attempt(attempt));
+  }
+
+  private async _attempt(request: TransportRequest): Promise<TransportResponse> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), request.timeout);
+    const abort = () => controller.abort();
+    request.signal?.addEventListener("abort", abort, { once: true });
+    try {
+      const response = await this._fetch.call(globalThis, request.url, {
+        method: "POST",
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+        signal: controller.signal,
+      });
+      const text = await response.text();
+      let data: any = null;
+      if (text) {
+        try {
+          data = JSON.parse(text);
+        } catch {
+          data = text;
+        }
+      }
+      return { status: response.status, data, headers: headers_to_record(response.headers) };
+    } catch (e) {
+      if (request.signal?.aborted) {
+        throw aborted_error(request.signal);
+      }
+      if (controller.signal.aborted) {
+        throw new TransportError(`timeout of ${request.timeout}ms exceeded`, "TIMEOUT");
+      }
+      throw new TransportError(e instanceof Error ? e.message : String(e), "NETWORK");
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener("abort", abort);
+    }
+  }
+}
+
+/**
+ * Handler used by InMemoryTransport to answer requests that have no scripted response.
+ */
+export type InMemoryHandler = (request: TransportRequest) => TransportResponse | Promise<TransportResponse>;
+
+/**
+ * In-memory transport for tests.
+ *
+ * Records every request and answers with scripted responses in FIFO order,
+ * falling back to the handler (or an empty ad list) once the script runs out.
+ */
+export class InMemoryTransport implements Transport {
+  public readonly requests: TransportRequest[];
+  private _script: (TransportResponse | Error)[];
+  private _handler: InMemoryHandler;
+
+  /**
+   * @param handler - Fallback handler for unscripted requests
+   */
+  constructor(handler?: InMemoryHandler) {
+    this.requests = [];
+    this._script = [];
+    this._handler = handler ?? (() => ({ status: 200, data: { ads: [] }, headers: {} }));
+  }
+
+  /**
+   * Queue a response for the next unanswered request.
+   */
+  public enqueue_response(data: any, status: number = 200, headers: Record<string, string> = {}): this {
+    this._script.push({ status, data, headers });
+    return this;
+  }
+
+  /**
+   * Queue an error to be thrown for the next unanswered request.
+   */
+  public enqueue_error(error: Error): this {
+    this._script.push(error);
+    return this;
+  }
+
+  /**
+   * Drop recorded requests and any unused scripted responses.
+   */
+  public reset(): void {
+    this.requests.length = 0;
+    this._script = [];
+  }
+
+  public async post(request: TransportRequest): Promise<TransportResponse> {
+    this.requests.push(request);
+    const next = this._script.shift();
+    if (next instanceof Error) {
+      throw next;
+    }
+    return assert_success(next ?? await this._handler(request));
+  }
+}
@@ -6,6 +6,7 @@
 
 import { z } from 'zod';
 import { countries } from 'countries-list';
+import { v4 as uuidv4 } from 'uuid';
 
 /**
  * Gender enumeration.
@@ -161,6 +162,31 @@ export const UserInfoSchema = z.object({
 
 export type UserInfo = z.infer<typeof UserInfoSchema>;
 
+/**
+ * Privacy consent given by the user.
+ *
+ * Attributes:
+ *     ads_personalization (boolean): Whether ads may be personalized with the user's data. Defaults to true.
+ *     data_sharing (boolean): Whether the user's data may be shared with the ad server,
+ *         false for a CCPA opt-out. Defaults to true.
+ *     is_minor (boolean): Whether the user is a minor. Defaults to false.
+ *     gdpr_applies (boolean): Whether the GDPR applies to the user.
+ *     tcf_consent (string): IAB TCF v2 consent string.
+ *     gpp_string (string): IAB Global Privacy Platform string.
+ *     gpp_sid (number[]): GPP section ids applicable to the request.
+ */
+export const ConsentSchema = z.object({
+  ads_personalization: z.boolean().default(true),
+  data_sharing: z.boolean().default(true),
+  is_minor: z.boolean().default(false),
+  gdpr_applies: z.boolean().optional(),
+  tcf_consent: z.string().optional(),
+  gpp_string: z.string().optional(),
+  gpp_sid: z.array(z.number().int()).optional()
+});
+
+export type Consent = z.infer<typeof ConsentSchema>;
+
 /**
  * Stores session details including user.
  *
@@ -170,32 +196,70 @@ export type UserInfo = z.infer<typeof UserInfoSchema>;
  *     character_metadata (string): Additional metadata for the character as a string.
  *     user_info (UserInfo): User information.
  *     platform (Platform): Platform information.
+ *     consent (Consent): Privacy consent of the user. Without it, full consent is assumed.
  */
 export const SessionInfoSchema = z.object({
   session_id: z.string(),
   character_name: z.string(),
   character_metadata: z.string(),
   user_info: UserInfoSchema,
-  platform: PlatformSchema
+  platform: PlatformSchema,
+  consent: ConsentSchema.optional()
 });
 
 export type SessionInfo = z.infer<typeof SessionInfoSchema>;
 
+/**
+ * Metadata of a file attached to a message. The file itself is never sent.
+ *
+ * name and url are scrubbed like message content when PII redaction is enabled, and left out
+ * of ad requests in privacy mode.
+ *
+ * Attributes:
+ *     type (string): Kind of attachment, e.g. image, audio, video or file.
+ *     mime_type (string): MIME type of the file.
+ *     name (string): File name.
+ *     size (number): Size in bytes.
+ *     url (string): Where the file can be found, when it is public.
+ */
+export const AttachmentSchema = z.object({
+  type: z.string(),
+  mime_type: z.string().optional(),
+  name: z.string().optional(),
+  size: z.number().int().min(0).optional(),
+  url: z.string().url().optional()
+});
+
+export type Attachment = z.infer<typeof AttachmentSchema>;
+
 /**
  * Represents a single message in a conversation.
  *
  * Attributes:
  *     role (Role): The role of the message sender (either user or AI).
  *     content (string): The content of the message.
+ *     timestamp (number): Unix time in seconds when the message was sent. Defaults to now.
+ *     message_id (string): Unique ID of the message, kept across batches and retries so the
+ *         server can deduplicate. Defaults to a new UUID.
+ *     locale (string): BCP 47 locale of the message, e.g. "en-US". Optional.
+ *     attachments (Attachment[]): Files attached to the message. Optional.
  */
 export const MessageSchema = z.object({
   role: z.nativeEnum(Role),
-  content: z.string()
-  // timestamp: z.number()  // Add timestamp field
+  content: z.string(),
+  timestamp: z.number().default(() => Date.now() / 1000),
+  message_id: z.string().min(1).default(() => uuidv4()),
+  locale: z.string().optional(),
+  attachments: z.array(AttachmentSchema).optional()
 });
 
 export type Message = z.infer<typeof MessageSchema>;
 
+/**
+ * A message as accepted by MessageSchema, with timestamp and message_id optional.
+ */
+export type MessageInput = z.input<typeof MessageSchema>;
+
 /**
  * Represents an advertisement fetched via the ADCortex API.
  *
@@ -224,4 +288,46 @@ export const AdResponseSchema = z.object({
   ads: z.array(AdSchema)
 });
 
-export type AdResponse = z.infer<typeof AdResponseSchema>;
\ No newline at end of file
+export type AdResponse = z.infer<typeof AdResponseSchema>;
+
+/**
+ * User data sent in privacy mode, coarsened or stripped of personal fields.
+ *
+ * Attributes:
+ *     language (string): Preferred language.
+ *     location (string): Country code, only when coarsened.
+ *     age_range (string): Age bracket such as "25-34", only when coarsened.
+ */
+export const PrivateUserDataSchema = z.object({
+  language: z.nativeEnum(Language),
+  location: z.string().optional(),
+  age_range: z.string().optional()
+}).strict();
+
+export type PrivateUserData = z.infer<typeof PrivateUserDataSchema>;
+
+/**
+ * Schema of the ad matching request payload sent by the clients.
+ *
+ * Attributes:
+ *     RGUID (string): Unique identifier of the request.
+ *     session_info (object): Session id, character name and character metadata.
+ *     user_data (UserInfo | PrivateUserData): User information, or its private form in privacy mode.
+ *     messages (Message[]): Messages of the batch, oldest first.
+ *     platform (Platform): Platform information.
+ *     consent (Consent): Consent signals of the user, when known.
+ */
+export const AdRequestSchema = z.object({
+  RGUID: z.string().uuid(),
+  session_info: SessionInfoSchema.pick({
+    session_id: true,
+    character_name: true,
+    character_metadata: true
+  }),
+  user_data: z.union([UserInfoSchema, PrivateUserDataSchema]),
+  messages: z.array(MessageSchema).nonempty(),
+  platform: PlatformSchema,
+  consent: ConsentSchema.optional()
+});
+
+export type AdRequest = z.infer<typeof AdRequestSchema>;
\ No newline at end of file
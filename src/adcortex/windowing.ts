@@ -0,0 +1,165 @@
+/**
+ * Conversation history windowing for ADCortex API clients.
+ *
+ * Decides which messages go into an ad request: either only the messages the
+ * server has not seen yet, or a window over the recent conversation. Either
+ * way the selection can be limited to a number of turns, a character budget
+ * or an approximate token budget, and very long messages can be truncated or
+ * summarized.
+ */
+
+import { Message } from './types.js';
+import { Logger } from './logger.js';
+
+/**
+ * Which messages are candidates for an ad request.
+ *
+ * Attributes:
+ *     delta: Only messages the server has not seen yet.
+ *     window: The recent conversation, including messages already sent.
+ */
+export enum HistoryMode {
+  delta = "delta",
+  window = "window"
+}
+
+/**
+ * Shortens a message longer than max_message_chars, e.g. by summarizing it with an LLM.
+ */
+export type MessageSummarizer = (message: Message) => string | Promise<string>;
+
+/**
+ * Estimates the number of tokens in a text.
+ */
+export type TokenEstimator = (text: string) => number;
+
+/**
+ * Settings of a ContextWindow.
+ *
+ * Attributes:
+ *     max_turns (number): Maximum number of messages selected.
+ *     max_chars (number): Maximum total characters of the selected messages.
+ *     max_tokens (number): Maximum total estimated tokens of the selected messages.
+ *     keep_first_user_message (boolean): Always include the first user message of the
+ *         conversation, in addition to max_turns.
+ *     max_message_chars (number): Messages longer than this are summarized or truncated.
+ *     summarize (MessageSummarizer): Shortens long messages. Defaults to truncation.
+ *     token_estimator (TokenEstimator): Token counting for max_tokens. Defaults to estimate_tokens.
+ */
+export interface ContextWindowSettings {
+  max_turns?: number;
+  max_chars?: number;
+  max_tokens?: number;
+  keep_first_user_message: boolean;
+  max_message_chars?: number;
+  summarize?: MessageSummarizer;
+  token_estimator?: TokenEstimator;
+}
+
+/**
+ * Rough token count, assuming about four characters per token.
+ */
+export function estimate_tokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Cut a text down to max_chars characters, marking the cut with an ellipsis.
+ */
+export function truncate_content(content: string, max_chars: number): string {
+  if (content.length <= max_chars) {
+    return content;
+  }
+  return content.slice(0, Math.max(0, max_chars - 1)) + "…";
+}
+
+/**
+ * Selects the messages sent with an ad request.
+ *
+ * The newest message is always selected. Older messages are added, newest
+ * first, until one of the limits would be exceeded.
+ */
+export class ContextWindow {
+  private _settings: ContextWindowSettings;
+  private _logger: Logger;
+  private _estimate: TokenEstimator;
+  private _shortened: WeakMap<Message, Message>;
+
+  /**
+   * @param settings - Window limits
+   * @param logger - Logger for summarizer failures
+   */
+  constructor(settings: ContextWindowSettings, logger: Logger) {
+    this._settings = settings;
+    this._logger = logger;
+    this._estimate = settings.token_estimator ?? estimate_tokens;
+    this._shortened = new WeakMap();
+  }
+
+  /**
+   * Select messages from the candidates, oldest first.
+   *
+   * @param candidates - Candidate messages, oldest first
+   * @param first_user_message - First user message of the conversation, kept when
+   *     keep_first_user_message is set
+   */
+  public async select(candidates: Message[], first_user_message: Message | null = null): Promise<Message[]> {
+    const { max_turns, max_chars, max_tokens, keep_first_user_message } = this._settings;
+    const anchor = keep_first_user_message ? first_user_message : null;
+    const selected: Message[] = [];
+    let chars = 0;
+    let tokens = 0;
+
+    // The anchor's budget is reserved before the recent messages are added
+    const kept_anchor = anchor ? await this._shorten(anchor) : null;
+    if (kept_anchor) {
+      chars += kept_anchor.content.length;
+      tokens += this._estimate(kept_anchor.content);
+    }
+
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const message = candidates[i];
+      if (message === anchor) {
+        continue;
+      }
+      if (max_turns !== undefined && selected.length >= max_turns) {
+        break;
+      }
+      const shortened = await this._shorten(message);
+      const next_chars = chars + shortened.content.length;
+      const next_tokens = tokens + this._estimate(shortened.content);
+      const over_budget = (max_chars !== undefined && next_chars > max_chars)
+        || (max_tokens !== undefined && next_tokens > max_tokens);
+      if (over_budget && selected.length > 0) {
+        break;
+      }
+      selected.unshift(shortened);
+      chars = next_chars;
+      tokens = next_tokens;
+    }
+
+    return kept_anchor ? [kept_anchor, ...selected] : selected;
+  }
+
+  private async _shorten(message: Message): Promise<Message> {
+    const limit = this._settings.max_message_chars;
+    if (limit === undefined || message.content.length <= limit) {
+      return message;
+    }
+    const cached = this._shortened.get(message);
+    if (cached) {
+      return cached;
+    }
+    let content = truncate_content(message.content, limit);
+    if (this._settings.summarize) {
+      try {
+        content = await this._settings.summarize(message);
+      } catch (e) {
+        this._logger.warn("Message summarizer failed, truncating instead", { error: e });
+      }
+    }
+    const shortened = { ...message, content };
+    this._shortened.set(message, shortened);
+    return shortened;
+  }
+}
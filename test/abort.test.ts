@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  AdcortexAbortError,
+  DEFAULT_ENDPOINT_URL,
+  FetchTransport,
+  Role,
+  TransportError
+} from '../src/adcortex/index.js';
+import { Message } from '../src/adcortex/types.js';
+import { MockAdcortexServer, sample_ad } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+test("aborting a call cancels its request and keeps the messages queued", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([sample_ad()], 5000).respond_with_ads([sample_ad()]);
+  const errors: unknown[] = [];
+  const client = create_client(server, { on_error: error => errors.push(error) });
+  const aborted: (string | null)[] = [];
+  client.on("request_aborted", event => aborted.push(event.rguid));
+  const controller = new AbortController();
+
+  const started = Date.now();
+  const call = client.__call__(Role.user, "one", { signal: controller.signal });
+  setTimeout(() => controller.abort(), 20);
+  await call;
+
+  assert.ok(Date.now() - started < 1000);
+  assert.equal(client.latest_ad, null);
+  assert.deepEqual(aborted, [server.ad_requests()[0].body.RGUID]);
+  assert.deepEqual(errors, []);
+
+  await client.__call__(Role.user, "two");
+  assert.deepEqual(server.ad_requests()[1].body.messages.map((m: Message) => m.content), ["one", "two"]);
+  assert.deepEqual(client.latest_ad, sample_ad());
+});
+
+test("a call deadline cancels the request without counting towards the circuit breaker", async () => {
+  const server = new MockAdcortexServer().set_default({ delay_ms: 5000 });
+  const client = create_client(server, { circuit_breaker_threshold: 1 });
+
+  const started = Date.now();
+  await client.__call__(Role.user, "one", { deadline: 0.05 });
+
+  assert.ok(Date.now() - started < 1000);
+  assert.equal(client.is_healthy(), true);
+});
+
+test("an already aborted signal sends no request", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server);
+
+  await client.__call__(Role.user, "one", { signal: AbortSignal.abort() });
+
+  assert.equal(server.ad_requests().length, 0);
+});
+
+test("aborted calls reject with AdcortexAbortError when throw_on_error is set", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([sample_ad()], 5000);
+  const client = create_client(server, { throw_on_error: true });
+
+  await assert.rejects(
+    client.__call__(Role.user, "one", { deadline: 0.02 }),
+    (error: unknown) => error instanceof AdcortexAbortError && /deadline/.test(error.message)
+  );
+});
+
+test("aborting stops FetchTransport between retries", async () => {
+  const server = new MockAdcortexServer({ validate_payload: false }).set_default({ status: 503 });
+  const transport = new FetchTransport({ retries: 3, base_delay: 5000 }, server.fetch);
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 20);
+
+  const error = await transport.post({
+    url: DEFAULT_ENDPOINT_URL,
+    body: {},
+    headers: {},
+    timeout: 1000,
+    signal: controller.signal
+  }).catch(e => e);
+
+  assert.ok(error instanceof TransportError);
+  assert.equal(error.code, "ABORTED");
+  assert.equal(server.ad_requests().length, 1);
+});
@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  AdCategory,
+  BrandSafetyFilter,
+  FilterReason,
+  FilteredAd,
+  Role,
+  link_domain
+} from '../src/adcortex/index.js';
+import { MockAdcortexServer, sample_ad } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+const beer = sample_ad({ ad_title: "Craft Beer Club", link: "https://brewco.com/club" });
+const casino = sample_ad({ ad_title: "Spin now", ad_description: "The best online casino", link: "https://www.luckyspin.io" });
+const laptop = sample_ad({ ad_title: "Laptop sale", ad_description: "Better prices on laptops", link: "https://shop.example.com/laptops" });
+
+test("link_domain lower-cases and drops www", () => {
+  assert.equal(link_domain("https://WWW.Example.com/path"), "example.com");
+  assert.equal(link_domain("not a url"), null);
+});
+
+test("blocked categories match whole keywords in the title or description", () => {
+  const filter = new BrandSafetyFilter({
+    rule: { blocked_categories: [AdCategory.alcohol, AdCategory.gambling] },
+    characters: {}
+  });
+
+  const { allowed, filtered } = filter.filter([beer, casino, laptop], "Assistant");
+
+  // "Better" must not match the gambling keyword "bet"
+  assert.deepEqual(allowed, [laptop]);
+  assert.deepEqual(filtered.map(f => [f.reason, f.match]), [
+    [FilterReason.blocked_category, AdCategory.alcohol],
+    [FilterReason.blocked_category, AdCategory.gambling]
+  ]);
+});
+
+test("keywords and categories are also matched in the placement text", () => {
+  const filter = new BrandSafetyFilter({
+    rule: { blocked_keywords: ["crypto"], blocked_categories: [AdCategory.alcohol] },
+    characters: {}
+  });
+  const hidden_keyword = sample_ad({ ad_title: "Savings app", placement_template: "Earn crypto while you shop!" });
+  const hidden_category = sample_ad({ ad_title: "Weekend deals", placement_template: "Grab a cold beer on us." });
+
+  assert.equal(filter.check(hidden_keyword, "Assistant")?.match, "crypto");
+  assert.equal(filter.check(hidden_category, "Assistant")?.reason, FilterReason.blocked_category);
+  assert.equal(filter.check(laptop, "Assistant"), null);
+});
+
+test("domain blocklists include subdomains and allowlists restrict links", () => {
+  const blocking = new BrandSafetyFilter({ rule: { blocked_domains: ["example.com"] }, characters: {} });
+  const allowing = new BrandSafetyFilter({ rule: { allowed_domains: ["brewco.com"] }, characters: {} });
+
+  assert.equal(blocking.check(laptop, "Assistant")?.reason, FilterReason.blocked_domain);
+  assert.equal(blocking.check(beer, "Assistant"), null);
+  assert.equal(allowing.check(laptop, "Assistant")?.reason, FilterReason.domain_not_allowed);
+  assert.equal(allowing.check(beer, "Assistant"), null);
+});
+
+test("keyword blocklists and allowlists are case-insensitive", () => {
+  const filter = new BrandSafetyFilter({
+    rule: { blocked_keywords: ["online casino"], allowed_keywords: ["laptops", "spin"] },
+    characters: {}
+  });
+
+  assert.equal(filter.check(casino, "Assistant")?.match, "online casino");
+  assert.equal(filter.check(beer, "Assistant")?.reason, FilterReason.keyword_not_allowed);
+  assert.equal(filter.check(laptop, "Assistant"), null);
+});
+
+test("character rules add blocklists and replace allowlists", () => {
+  const filter = new BrandSafetyFilter({
+    rule: { blocked_categories: [AdCategory.gambling], allowed_domains: ["example.com"] },
+    characters: {
+      "Kid Buddy": { blocked_categories: [AdCategory.alcohol] },
+      "Bartender": { allowed_domains: ["brewco.com"] }
+    }
+  });
+
+  assert.equal(filter.check(beer, "Kid Buddy")?.character_rule, true);
+  assert.equal(filter.check(casino, "Kid Buddy")?.character_rule, false);
+  assert.equal(filter.check(beer, "Bartender"), null);
+  assert.equal(filter.check(laptop, "Bartender")?.reason, FilterReason.domain_not_allowed);
+  assert.equal(filter.check(laptop, "Assistant"), null);
+});
+
+test("the client never selects filtered ads and reports them", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([beer, laptop]);
+  const audited: FilteredAd[] = [];
+  const client = create_client(server, {
+    brand_safety: {
+      characters: { Assistant: { blocked_categories: [AdCategory.alcohol] } },
+      on_filtered: filtered => audited.push(filtered)
+    }
+  });
+  const events: string[] = [];
+  client.on("ad_filtered", event => events.push(event.ad.ad_title));
+
+  await client.__call__(Role.user, "hello");
+
+  assert.deepEqual(client.latest_ad, laptop);
+  assert.deepEqual(client.peek_ads(), [laptop]);
+  assert.deepEqual(events, ["Craft Beer Club"]);
+  assert.equal(audited[0].reason, FilterReason.blocked_category);
+  assert.equal(audited[0].character_name, "Assistant");
+});
+
+test("a response with only filtered ads yields no ad", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([casino]);
+  const client = create_client(server, { brand_safety: { blocked_domains: ["luckyspin.io"] } });
+  let no_ad = 0;
+  client.on("no_ad", () => no_ad++);
+
+  await client.__call__(Role.user, "hello");
+
+  assert.equal(client.latest_ad, null);
+  assert.equal(no_ad, 1);
+});
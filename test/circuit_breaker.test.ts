@@ -0,0 +1,183 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  AdcortexClientOptions,
+  AdcortexError,
+  CircuitBreakerRegistry,
+  CircuitOpenError,
+  CircuitState,
+  NoopLogger,
+  Role
+} from '../src/adcortex/index.js';
+import { CircuitBreaker } from '../src/adcortex/state.js';
+import { MockAdcortexServer } from '../src/adcortex/testing.js';
+import { create_client, sleep } from './helpers.js';
+
+test("the breaker stays closed below the threshold", () => {
+  const breaker = new CircuitBreaker(3, 60, new NoopLogger());
+
+  breaker.record_error();
+  breaker.record_error();
+
+  assert.equal(breaker.is_open(), false);
+});
+
+test("the breaker opens at the threshold and emits opened once", () => {
+  const breaker = new CircuitBreaker(2, 60, new NoopLogger());
+  const opened: number[] = [];
+  breaker.on("opened", event => opened.push(event.error_count));
+
+  breaker.record_error();
+  breaker.record_error();
+  breaker.record_error();
+
+  assert.equal(breaker.is_open(), true);
+  assert.deepEqual(opened, [2]);
+});
+
+test("the breaker turns half-open after its timeout and closes after a successful probe", async () => {
+  const breaker = new CircuitBreaker(1, 0.02, new NoopLogger());
+  let closed = 0;
+  breaker.on("closed", () => closed++);
+
+  breaker.record_error();
+  assert.equal(breaker.is_open(), true);
+  assert.equal(breaker.allow_request(), false);
+
+  await sleep(30);
+  assert.equal(breaker.state(), CircuitState.half_open);
+  assert.equal(breaker.allow_request(), true);
+  assert.equal(breaker.allow_request(), false);
+  assert.equal(closed, 0);
+
+  breaker.record_success();
+  assert.equal(breaker.state(), CircuitState.closed);
+  assert.equal(closed, 1);
+});
+
+test("a failed probe opens the breaker again", async () => {
+  const breaker = new CircuitBreaker(1, 0.02, new NoopLogger(), { half_open_probes: 2 });
+  let opened = 0;
+  breaker.on("opened", () => opened++);
+
+  breaker.record_error();
+  await sleep(30);
+  assert.equal(breaker.allow_request(), true);
+  assert.equal(breaker.allow_request(), true);
+  assert.equal(breaker.allow_request(), false);
+  breaker.record_success();
+  breaker.record_error();
+
+  assert.equal(breaker.state(), CircuitState.open);
+  assert.equal(opened, 2);
+});
+
+test("the breaker opens on the failure rate within the window, not on raw counts", () => {
+  const breaker = new CircuitBreaker(3, 60, new NoopLogger(), { failure_rate: 0.5 });
+
+  for (let i = 0; i < 4; i++) {
+    breaker.record_success();
+  }
+  breaker.record_error();
+  breaker.record_error();
+  breaker.record_error();
+  assert.equal(breaker.is_open(), false);
+  assert.deepEqual(breaker.window_stats(), { requests: 7, failures: 3 });
+
+  breaker.record_error();
+  assert.equal(breaker.is_open(), true);
+});
+
+test("failures outside the sliding window are forgotten", async () => {
+  const breaker = new CircuitBreaker(2, 60, new NoopLogger(), { window: 0.02 });
+
+  breaker.record_error();
+  await sleep(30);
+  breaker.record_error();
+
+  assert.equal(breaker.is_open(), false);
+  assert.equal(breaker.window_stats().failures, 1);
+});
+
+test("reset closes an open breaker", () => {
+  const breaker = new CircuitBreaker(1, 60, new NoopLogger());
+  let closed = 0;
+  breaker.on("closed", () => closed++);
+
+  breaker.record_error();
+  breaker.reset();
+
+  assert.equal(breaker.is_open(), false);
+  assert.equal(closed, 1);
+});
+
+test("an open breaker skips requests and reports CircuitOpenError", async () => {
+  const server = new MockAdcortexServer().respond_with_error(503).respond_with_error(503);
+  const errors: AdcortexError[] = [];
+  const client = create_client(server, {
+    circuit_breaker_threshold: 2,
+    on_error: error => errors.push(error)
+  });
+  let opened = 0;
+  client.on("circuit_opened", () => opened++);
+
+  await client.__call__(Role.user, "one");
+  await client.__call__(Role.user, "two");
+  await client.__call__(Role.user, "three");
+
+  assert.equal(server.ad_requests().length, 2);
+  assert.equal(opened, 1);
+  assert.ok(errors[2] instanceof CircuitOpenError);
+  assert.equal(client.is_healthy(), false);
+});
+
+test("requests resume once the breaker timeout has passed", async () => {
+  const server = new MockAdcortexServer().respond_with_error(503);
+  const client = create_client(server, {
+    circuit_breaker_threshold: 1,
+    circuit_breaker_timeout: 0.02
+  });
+  let closed = 0;
+  client.on("circuit_closed", () => closed++);
+
+  await client.__call__(Role.user, "one");
+  await client.__call__(Role.user, "skipped");
+  assert.equal(server.ad_requests().length, 1);
+
+  await sleep(30);
+  await client.__call__(Role.user, "two");
+
+  assert.equal(server.ad_requests().length, 2);
+  assert.equal(closed, 1);
+  assert.equal(client.is_healthy(), true);
+});
+
+test("clients sharing a registry share one breaker per endpoint", async () => {
+  const registry = new CircuitBreakerRegistry();
+  const server = new MockAdcortexServer().respond_with_error(503).respond_with_error(503);
+  const options: AdcortexClientOptions = { circuit_breaker_threshold: 2, circuit_breaker: { registry } };
+  const clients = [create_client(server, options), create_client(server, options), create_client(server, options)];
+
+  for (const client of clients) {
+    await client.__call__(Role.user, "hello");
+  }
+
+  assert.equal(server.ad_requests().length, 2);
+  assert.equal(registry.entries().length, 1);
+  assert.ok(clients.every(client => !client.is_healthy()));
+});
+
+test("is_healthy reports a half-open breaker as unhealthy", async () => {
+  const server = new MockAdcortexServer().respond_with_error(503);
+  const client = create_client(server, { circuit_breaker_threshold: 1, circuit_breaker_timeout: 0.02 });
+  let half_opened = 0;
+  client.on("circuit_half_opened", () => half_opened++);
+
+  await client.__call__(Role.user, "one");
+  await sleep(30);
+
+  assert.equal(client.circuit_state(), CircuitState.half_open);
+  assert.equal(client.is_healthy(), false);
+  assert.equal(half_opened, 1);
+});
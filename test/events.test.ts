@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { TypedEventEmitter } from '../src/adcortex/index.js';
+
+interface TestEvents {
+  ping: { n: number };
+}
+
+test("once listeners fire for the next event only", () => {
+  const emitter = new TypedEventEmitter<TestEvents>();
+  const received: number[] = [];
+  emitter.once("ping", event => received.push(event.n));
+
+  emitter.emit("ping", { n: 1 });
+  emitter.emit("ping", { n: 2 });
+
+  assert.deepEqual(received, [1]);
+  assert.equal(emitter.listener_count("ping"), 0);
+});
+
+test("off removes a once listener by the original function", () => {
+  const emitter = new TypedEventEmitter<TestEvents>();
+  const received: number[] = [];
+  const listener = (event: { n: number }) => received.push(event.n);
+  emitter.once("ping", listener);
+
+  emitter.off("ping", listener);
+  emitter.emit("ping", { n: 1 });
+
+  assert.deepEqual(received, []);
+  assert.equal(emitter.listener_count("ping"), 0);
+});
+
+test("a once listener can be subscribed again after it fired", () => {
+  const emitter = new TypedEventEmitter<TestEvents>();
+  const received: number[] = [];
+  const listener = (event: { n: number }) => received.push(event.n);
+
+  emitter.once("ping", listener);
+  emitter.emit("ping", { n: 1 });
+  const off = emitter.once("ping", listener);
+  emitter.emit("ping", { n: 2 });
+  off();
+
+  assert.deepEqual(received, [1, 2]);
+});
+
+test("a throwing listener is reported and does not stop the others", () => {
+  const errors: unknown[] = [];
+  const emitter = new TypedEventEmitter<TestEvents>(error => errors.push(error));
+  const received: number[] = [];
+  emitter.on("ping", () => {
+    throw new Error("listener failed");
+  });
+  emitter.on("ping", event => received.push(event.n));
+
+  emitter.emit("ping", { n: 1 });
+
+  assert.deepEqual(received, [1]);
+  assert.equal(errors.length, 1);
+});
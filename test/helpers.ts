@@ -0,0 +1,27 @@
+/**
+ * Fixtures shared by the test files.
+ */
+
+import { AdcortexChatClient, AdcortexClientOptions } from '../src/adcortex/index.js';
+import { SessionInfo } from '../src/adcortex/types.js';
+import { MockAdcortexServer, sample_session_info } from '../src/adcortex/testing.js';
+
+/**
+ * A client talking to the mock server, with logging disabled.
+ */
+export function create_client(
+  server: MockAdcortexServer,
+  options: AdcortexClientOptions = {},
+  session_info: SessionInfo = sample_session_info()
+): AdcortexChatClient {
+  return new AdcortexChatClient(session_info, {
+    api_key: "test-key",
+    transport: server,
+    disable_logging: true,
+    ...options
+  });
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
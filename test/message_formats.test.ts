@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  AnthropicMessage,
+  OpenAIChatMessage,
+  Role,
+  from_anthropic_messages,
+  from_openai_messages
+} from '../src/adcortex/index.js';
+import { MockAdcortexServer, sample_ad } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+const OPENAI_HISTORY: OpenAIChatMessage[] = [
+  { role: "system", content: "You are helpful." },
+  { role: "user", content: [{ type: "text", text: "Find me" }, { type: "image_url", image_url: { url: "x" } }, { type: "text", text: "a laptop" }] },
+  { role: "assistant", content: null, tool_calls: [{ id: "1", type: "function" }] },
+  { role: "tool", content: "3 results", tool_call_id: "1" },
+  { role: "assistant", content: "Here are three laptops." }
+];
+
+test("OpenAI histories map assistant to ai, flatten parts and drop system and tool turns", () => {
+  assert.deepEqual(from_openai_messages(OPENAI_HISTORY), [
+    { role: Role.user, content: "Find me\na laptop" },
+    { role: Role.ai, content: "Here are three laptops." }
+  ]);
+});
+
+test("system and tool turns can be kept under a chosen role", () => {
+  const messages = from_openai_messages(OPENAI_HISTORY, { system_role: Role.ai, tool_role: Role.ai, separator: " " });
+
+  assert.deepEqual(messages.map(message => message.content), [
+    "You are helpful.",
+    "Find me a laptop",
+    "3 results",
+    "Here are three laptops."
+  ]);
+});
+
+test("Anthropic histories treat tool_result-only user turns as tool turns", () => {
+  const history: AnthropicMessage[] = [
+    { role: "user", content: "Find me a laptop" },
+    { role: "assistant", content: [{ type: "text", text: "Searching." }, { type: "tool_use", id: "1", name: "search", input: {} }] },
+    { role: "user", content: [{ type: "tool_result", tool_use_id: "1", content: [{ type: "text", text: "3 results" }] }] },
+    { role: "user", content: [{ type: "tool_result", tool_use_id: "2", content: "ok" }, { type: "text", text: "Cheaper ones?" }] }
+  ];
+
+  assert.deepEqual(from_anthropic_messages(history), [
+    { role: Role.user, content: "Find me a laptop" },
+    { role: Role.ai, content: "Searching." },
+    { role: Role.user, content: "Cheaper ones?" }
+  ]);
+  assert.deepEqual(
+    from_anthropic_messages(history, { system: "Be brief.", system_role: Role.ai, tool_role: Role.ai }).map(message => message.content),
+    ["Be brief.", "Find me a laptop", "Searching.", "3 results", "Cheaper ones?"]
+  );
+});
+
+test("the client returns its ad context as OpenAI and Anthropic system content", async () => {
+  const client = create_client(new MockAdcortexServer().respond_with_ads([sample_ad()]));
+
+  assert.equal(client.create_openai_context_message(), null);
+  await client.__call__(Role.user, "I need a laptop");
+
+  assert.deepEqual(client.create_openai_context_message(), { role: "system", content: client.create_context() });
+  assert.deepEqual(client.create_anthropic_context_block(), { type: "text", text: client.create_context() });
+});
@@ -0,0 +1,148 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  HistoryMode,
+  InMemoryStateStore,
+  LogFields,
+  Logger,
+  Role,
+  SESSION_STATE_VERSION,
+  from_openai_messages,
+  session_state_key
+} from '../src/adcortex/index.js';
+import { Message } from '../src/adcortex/types.js';
+import { MockAdcortexServer } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+test("messages are sent with their timestamp, id and metadata", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server);
+  const before = Date.now() / 1000;
+
+  await client.__call__(Role.user, "Look at this", {
+    message_id: "msg-1",
+    locale: "en-GB",
+    attachments: [{ type: "image", mime_type: "image/png", size: 1024 }]
+  });
+
+  const [request] = server.ad_requests();
+  assert.deepEqual(request.payload_issues, []);
+  const [message] = request.body.messages;
+  assert.equal(message.message_id, "msg-1");
+  assert.equal(message.locale, "en-GB");
+  assert.deepEqual(message.attachments, [{ type: "image", mime_type: "image/png", size: 1024 }]);
+  assert.ok(message.timestamp >= before && message.timestamp <= Date.now() / 1000);
+});
+
+test("the logged payload hides locales and attachment names and urls", async () => {
+  const logged: LogFields[] = [];
+  const logger: Logger = {
+    debug: (message, fields = {}) => logged.push(fields),
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+  };
+  const client = create_client(new MockAdcortexServer(), { logger: logger, disable_logging: false });
+
+  await client.__call__(Role.user, "Look at this", {
+    locale: "en-GB",
+    attachments: [{ type: "file", mime_type: "application/pdf", size: 2048, name: "cv.pdf", url: "https://files.example/cv.pdf" }]
+  });
+
+  const payload = logged.find(fields => fields.payload)!.payload as { messages: Record<string, unknown>[] };
+  const [message] = payload.messages;
+  assert.equal(message.content, "[12 chars]");
+  assert.equal(message.locale, "[REDACTED]");
+  assert.deepEqual(message.attachments, [
+    { type: "file", mime_type: "application/pdf", size: 2048, name: "[REDACTED]", url: "[REDACTED]" }
+  ]);
+});
+
+test("message ids stay the same when a failed batch is sent again", async () => {
+  const server = new MockAdcortexServer().respond_with_error(500);
+  const client = create_client(server);
+
+  await client.__call__(Role.user, "one");
+  await client.__call__(Role.user, "two");
+
+  const [first, second] = server.ad_requests().map(request => request.body.messages.map((m: Message) => m.message_id));
+  assert.equal(second[0], first[0]);
+  assert.notEqual(second[1], first[0]);
+});
+
+test("past messages keep their timestamps and are sent with the next request", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server);
+
+  const added = client.add_past_messages([
+    { role: Role.ai, content: "Hi! How can I help?", timestamp: 1_700_000_010, message_id: "b" },
+    { role: Role.user, content: "Hello", timestamp: 1_700_000_000, message_id: "a" }
+  ]);
+  assert.equal(added, 2);
+  assert.equal(server.ad_requests().length, 0);
+
+  await client.__call__(Role.user, "I need a laptop");
+
+  const sent = server.ad_requests()[0].body.messages;
+  assert.deepEqual(sent.map((m: Message) => [m.content, m.timestamp]).slice(0, 2), [
+    ["Hello", 1_700_000_000],
+    ["Hi! How can I help?", 1_700_000_010]
+  ]);
+  assert.equal(sent.length, 3);
+});
+
+test("past messages added after newer ones are queued in timestamp order", async () => {
+  const server = new MockAdcortexServer().respond_with_error(500);
+  const client = create_client(server, {
+    history: { mode: HistoryMode.window, max_turns: 3, keep_first_user_message: true }
+  });
+
+  await client.__call__(Role.user, "I need a laptop");
+  client.add_past_messages([
+    { role: Role.user, content: "Hello", timestamp: 1_700_000_000 },
+    { role: Role.ai, content: "Hi! How can I help?", timestamp: 1_700_000_010 }
+  ]);
+  await client.__call__(Role.user, "Something light");
+
+  assert.deepEqual(server.ad_requests()[1].body.messages.map((m: Message) => m.content), [
+    "Hello",
+    "Hi! How can I help?",
+    "I need a laptop",
+    "Something light"
+  ]);
+});
+
+test("past messages already known by id are skipped", () => {
+  const client = create_client(new MockAdcortexServer());
+  const history = [{ role: Role.user, content: "Hello", message_id: "a" }];
+
+  assert.equal(client.add_past_messages(history), 1);
+  assert.equal(client.add_past_messages(history), 0);
+  assert.equal(client.add_past_messages(from_openai_messages([{ role: "assistant", content: "Hi" }])), 1);
+});
+
+test("state saved before messages had ids can still be restored", async () => {
+  const store = new InMemoryStateStore();
+  store.set(session_state_key("test-session"), {
+    version: SESSION_STATE_VERSION,
+    saved_at: 0,
+    queue: [{ role: "user", content: "old" }],
+    history: [],
+    first_user_message: null,
+    first_user_message_index: null,
+    latest_ad: null,
+    latest_ads: [],
+    ad_rguids: [],
+    circuit_breakers: []
+  });
+  const server = new MockAdcortexServer();
+  const client = create_client(server, { state_store: store });
+
+  assert.equal(await client.restore(), true);
+  await client.__call__(Role.user, "new");
+
+  const sent = server.ad_requests()[0].body.messages;
+  assert.deepEqual(sent.map((m: Message) => m.content), ["old", "new"]);
+  assert.equal(typeof sent[0].message_id, "string");
+});
@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  AdcortexChatClient,
+  DEFAULT_ENDPOINT_URL,
+  FetchTransport,
+  Role,
+  TrackingEventType,
+  TransportError
+} from '../src/adcortex/index.js';
+import { MockAdcortexServer, sample_ad, sample_session_info } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+const HEADERS = { "Content-Type": "application/json", "X-API-KEY": "test-key" };
+
+test("invalid ad request payloads get 422 and are recorded with their issues", async () => {
+  const server = new MockAdcortexServer();
+  const transport = new FetchTransport(0, server.fetch);
+
+  const response = await transport.post({
+    url: DEFAULT_ENDPOINT_URL,
+    body: { RGUID: "not-a-uuid" },
+    headers: HEADERS,
+    timeout: 1000
+  }).catch(e => e);
+
+  assert.ok(response instanceof TransportError);
+  assert.equal(response.status, 422);
+  assert.ok(server.requests[0].payload_issues.length > 0);
+});
+
+test("payloads built by the client match AdRequestSchema", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([sample_ad()]);
+  const client = new AdcortexChatClient(sample_session_info(), {
+    api_key: "test-key",
+    transport: new FetchTransport(0, server.fetch),
+    disable_logging: true
+  });
+
+  await client.__call__(Role.user, "I need a laptop");
+
+  const [request] = server.ad_requests();
+  assert.deepEqual(request.payload_issues, []);
+  assert.equal(request.headers["x-api-key"], "test-key");
+  assert.deepEqual(client.latest_ad, sample_ad());
+});
+
+test("FetchTransport times out on delayed responses", async () => {
+  const server = new MockAdcortexServer({ validate_payload: false }).respond_with({ delay_ms: 200 });
+  const transport = new FetchTransport(0, server.fetch);
+
+  const error = await transport.post({ url: DEFAULT_ENDPOINT_URL, body: {}, headers: HEADERS, timeout: 20 }).catch(e => e);
+
+  assert.ok(error instanceof TransportError);
+  assert.equal(error.code, "TIMEOUT");
+});
+
+test("FetchTransport retries network errors", async () => {
+  const server = new MockAdcortexServer({ validate_payload: false })
+    .respond_with_network_error()
+    .respond_with_ads([sample_ad()]);
+  const transport = new FetchTransport(1, server.fetch, 0);
+
+  const response = await transport.post({ url: DEFAULT_ENDPOINT_URL, body: {}, headers: HEADERS, timeout: 1000 });
+
+  assert.equal(server.ad_requests().length, 2);
+  assert.deepEqual(response.data, { ads: [sample_ad()] });
+});
+
+test("unknown paths get 404", async () => {
+  const server = new MockAdcortexServer();
+
+  const error = await server.post({ url: "https://example.com/other", body: {}, headers: HEADERS, timeout: 1000 }).catch(e => e);
+
+  assert.ok(error instanceof TransportError);
+  assert.equal(error.status, 404);
+  assert.equal(server.requests[0].kind, "unknown");
+});
+
+test("tracking events are recorded with the RGUID of the ad request", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([sample_ad()]);
+  const client = create_client(server);
+
+  await client.__call__(Role.user, "I need a laptop");
+  const ad = client.get_latest_ad()!;
+  client.track_impression(ad);
+  client.track_impression(ad);
+  await client.flush_events();
+
+  const events = server.tracking_events();
+  assert.equal(events.length, 1);
+  assert.equal(events[0].event_type, TrackingEventType.impression);
+  assert.equal(events[0].rguid, server.ad_requests()[0].body.RGUID);
+});
+
+test("reset drops recorded requests and scripted responses", async () => {
+  const server = new MockAdcortexServer({ validate_payload: false }).respond_with_error(500);
+
+  server.reset();
+  const response = await server.post({ url: DEFAULT_ENDPOINT_URL, body: {}, headers: HEADERS, timeout: 1000 });
+
+  assert.deepEqual(response.data, { ads: [] });
+  assert.equal(server.requests.length, 1);
+});
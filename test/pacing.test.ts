@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  AdPacer,
+  InMemoryPacingStore,
+  NoopLogger,
+  PacingReason,
+  PacingState,
+  PacingStore,
+  Role
+} from '../src/adcortex/index.js';
+import { MockAdcortexServer, sample_ad } from '../src/adcortex/testing.js';
+import { create_client, sleep } from './helpers.js';
+
+test("min_turns_between_ads counts user turns since the last ad shown", async () => {
+  const pacer = new AdPacer({ min_turns_between_ads: 2, user_window: 86400 }, new InMemoryPacingStore(), new NoopLogger());
+
+  pacer.record_user_turn("s");
+  assert.equal(await pacer.check("s", "u"), null);
+  pacer.record_shown("s", "u");
+  pacer.record_user_turn("s");
+  assert.equal(await pacer.check("s", "u"), PacingReason.min_turns);
+  pacer.record_user_turn("s");
+  assert.equal(await pacer.check("s", "u"), null);
+});
+
+test("session caps apply per session and user caps across sessions within the window", async () => {
+  const store = new InMemoryPacingStore();
+  const pacer = new AdPacer({ max_ads_per_session: 1, max_ads_per_user: 2, user_window: 60 }, store, new NoopLogger());
+
+  pacer.record_shown("s1", "u", 1_000);
+  assert.equal(await pacer.check("s1", "u", 2_000), PacingReason.session_cap);
+  assert.equal(await pacer.check("s2", "u", 2_000), null);
+
+  pacer.record_shown("s2", "u", 2_000);
+  assert.equal(await pacer.check("s3", "u", 3_000), PacingReason.user_cap);
+  assert.equal(await pacer.check("s3", "u", 62_000), null);
+  assert.equal(await pacer.check("s3", "other", 3_000), null);
+});
+
+test("cooldown applies to the user after an ad is shown", async () => {
+  const pacer = new AdPacer({ cooldown: 30, user_window: 86400 }, new InMemoryPacingStore(), new NoopLogger());
+
+  pacer.record_shown("s", "u", 0);
+
+  assert.equal(await pacer.check("s", "u", 29_000), PacingReason.cooldown);
+  assert.equal(await pacer.check("s", "u", 30_000), null);
+});
+
+test("a failing store never blocks ads", async () => {
+  const broken: PacingStore = {
+    get: () => Promise.reject(new Error("store down")),
+    set: () => {}
+  };
+  const pacer = new AdPacer({ max_ads_per_session: 0, user_window: 86400 }, broken, new NoopLogger());
+
+  assert.equal(await pacer.check("s", "u"), null);
+});
+
+test("a capped client skips the network call and clears latest_ad", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([sample_ad()]).respond_with_ads([sample_ad()]);
+  const client = create_client(server, { pacing: { min_turns_between_ads: 2 } });
+  const capped: PacingReason[] = [];
+  client.on("ad_capped", event => capped.push(event.reason));
+
+  await client.__call__(Role.user, "one");
+  assert.ok(client.get_latest_ad());
+  await client.__call__(Role.user, "two");
+  await client.__call__(Role.user, "three");
+
+  assert.deepEqual(capped, [PacingReason.min_turns]);
+  assert.deepEqual(server.ad_requests().map(request => request.body.messages.length), [1, 2]);
+});
+
+test("ads handed out with mark_ad_shown count towards the session cap", async () => {
+  const ad = sample_ad();
+  const server = new MockAdcortexServer().respond_with_ads([ad]);
+  const client = create_client(server, { pacing: { max_ads_per_session: 1 } });
+
+  await client.__call__(Role.user, "one");
+  client.mark_ad_shown(client.peek_ads()[0]);
+  await client.__call__(Role.user, "two");
+
+  assert.equal(server.ad_requests().length, 1);
+  assert.equal(client.latest_ad, null);
+});
+
+test("a shared store caps a user across clients", async () => {
+  const states = new Map<string, PacingState>();
+  const store: PacingStore = {
+    get: async key => states.get(key) ?? null,
+    set: async (key, state) => { states.set(key, state); }
+  };
+  const server = new MockAdcortexServer().respond_with_ads([sample_ad()]);
+  const first = create_client(server, { pacing: { cooldown: 0.05, store } });
+  const second = create_client(server, { pacing: { cooldown: 0.05, store } });
+
+  await first.__call__(Role.user, "one");
+  first.get_latest_ad();
+  await second.__call__(Role.user, "two");
+  assert.equal(server.ad_requests().length, 1);
+
+  await sleep(60);
+  await second.__call__(Role.user, "three");
+  assert.equal(server.ad_requests().length, 2);
+});
@@ -0,0 +1,135 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  AdcortexClientOptions,
+  FileStateStore,
+  HistoryMode,
+  InMemoryStateStore,
+  KeyValueStateStore,
+  Role,
+  StateStore,
+  session_state_key
+} from '../src/adcortex/index.js';
+import { Message } from '../src/adcortex/types.js';
+import { MockAdcortexServer, sample_ad } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+test("a new client restores the queue and pending ad of the session", async () => {
+  const store = new InMemoryStateStore();
+  const ad = sample_ad();
+  const server = new MockAdcortexServer().respond_with_ads([ad]);
+  const first = create_client(server, { state_store: store });
+
+  await first.__call__(Role.user, "one");
+  await first.__call__(Role.ai, "two");
+
+  const second = create_client(server, { state_store: store });
+  assert.equal(await second.restore(), true);
+  assert.deepEqual(second.get_latest_ad(), ad);
+
+  await second.__call__(Role.user, "three");
+  assert.deepEqual(server.ad_requests()[1].body.messages.map((m: Message) => m.content), ["two", "three"]);
+});
+
+test("the circuit breaker state survives across clients", async () => {
+  const store = new InMemoryStateStore();
+  const server = new MockAdcortexServer().respond_with_error(503);
+
+  await create_client(server, { state_store: store, circuit_breaker_threshold: 1 }).__call__(Role.user, "one");
+  const second = create_client(server, { state_store: store, circuit_breaker_threshold: 1 });
+  await second.restore();
+  await second.__call__(Role.user, "two");
+
+  assert.equal(server.ad_requests().length, 1);
+  assert.equal(second.is_healthy(), false);
+});
+
+test("the first user message is still kept once in window mode after a restore", async () => {
+  const store = new InMemoryStateStore();
+  const server = new MockAdcortexServer();
+  const options: AdcortexClientOptions = {
+    state_store: store,
+    history: { mode: HistoryMode.window, max_turns: 3, keep_first_user_message: true }
+  };
+
+  const first = create_client(server, options);
+  await first.__call__(Role.user, "one");
+  await first.__call__(Role.ai, "two");
+  const second = create_client(server, options);
+  await second.restore();
+  await second.__call__(Role.user, "three");
+
+  assert.deepEqual(server.ad_requests()[1].body.messages.map((m: Message) => m.content), ["one", "two", "three"]);
+});
+
+test("restore ignores missing and invalid state", async () => {
+  const store = new InMemoryStateStore();
+  const server = new MockAdcortexServer();
+
+  assert.equal(await create_client(server).restore(), false);
+  assert.equal(await create_client(server, { state_store: store }).restore(), false);
+  store.set(session_state_key("test-session"), { version: 0 });
+  assert.equal(await create_client(server, { state_store: store }).restore(), false);
+});
+
+test("failing saves are logged and never break the client", async () => {
+  const broken: StateStore = {
+    get: () => null,
+    set: () => { throw new Error("store down"); },
+    delete: () => {}
+  };
+  const server = new MockAdcortexServer().respond_with_ads([sample_ad()]);
+  const client = create_client(server, { state_store: broken });
+
+  await client.__call__(Role.user, "one");
+
+  assert.ok(client.latest_ad);
+});
+
+test("clear_state deletes the saved session", async () => {
+  const store = new InMemoryStateStore();
+  const client = create_client(new MockAdcortexServer(), { state_store: store });
+
+  await client.__call__(Role.user, "one");
+  assert.notEqual(store.get(session_state_key("test-session")), null);
+  await client.clear_state();
+
+  assert.equal(store.get(session_state_key("test-session")), null);
+});
+
+test("the key-value store prefixes keys and passes the ttl", async () => {
+  const values = new Map<string, string>();
+  const ttls: (number | undefined)[] = [];
+  const store = new KeyValueStateStore({
+    get: async key => values.get(key) ?? null,
+    set: async (key, value, ttl) => { values.set(key, value); ttls.push(ttl); },
+    delete: async key => { values.delete(key); }
+  }, "app:", 3600);
+
+  await store.set("session:a", { n: 1 });
+
+  assert.deepEqual([...values.keys()], ["app:session:a"]);
+  assert.deepEqual(await store.get("session:a"), { n: 1 });
+  assert.deepEqual(ttls, [3600]);
+  await store.delete("session:a");
+  assert.equal(await store.get("session:a"), null);
+});
+
+test("the file store round-trips values and tolerates missing keys", async () => {
+  const directory = await mkdtemp(join(tmpdir(), "adcortex-state-"));
+  try {
+    const store = new FileStateStore(join(directory, "nested"));
+
+    assert.equal(await store.get("session:a/b"), null);
+    await store.set("session:a/b", { queue: ["x"] });
+    assert.deepEqual(await new FileStateStore(join(directory, "nested")).get("session:a/b"), { queue: ["x"] });
+    await store.delete("session:a/b");
+    assert.equal(await store.get("session:a/b"), null);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
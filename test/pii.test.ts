@@ -0,0 +1,151 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  MessageSchema,
+  PiiScrubber,
+  PiiType,
+  RedactionReport,
+  Role,
+  builtin_redactors,
+  iban_check,
+  luhn_check
+} from '../src/adcortex/index.js';
+import { MockAdcortexServer } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+const scrubber = new PiiScrubber();
+
+function scrub(text: string): string {
+  return scrubber.scrub_text(text).text;
+}
+
+test("checksums accept valid and reject invalid values", () => {
+  assert.equal(luhn_check("4111 1111 1111 1111"), true);
+  assert.equal(luhn_check("4111 1111 1111 1112"), false);
+  assert.equal(iban_check("DE89 3704 0044 0532 0130 00"), true);
+  assert.equal(iban_check("DE89 3704 0044 0532 0130 01"), false);
+});
+
+test("built-in detectors redact emails, cards, IBANs, IPs and phone numbers", () => {
+  assert.equal(scrub("mail me at jane.doe+ads@example.co.uk"), "mail me at [EMAIL]");
+  assert.equal(scrub("card 4111-1111-1111-1111 please"), "card [CREDIT_CARD] please");
+  assert.equal(scrub("IBAN DE89 3704 0044 0532 0130 00."), "IBAN [IBAN].");
+  assert.equal(scrub("from 192.168.0.12 and 2001:db8::8a2e:370:7334"), "from [IP_ADDRESS] and [IP_ADDRESS]");
+  assert.equal(scrub("call +44 20 7946 0958 or (555) 123-4567"), "call [PHONE] or [PHONE]");
+});
+
+test("IBANs in the middle of a sentence are redacted without the words after them", () => {
+  assert.equal(scrub("DE89 3704 0044 0532 0130 00 please"), "[IBAN] please");
+  assert.equal(scrub("DE89370400440532013000 please"), "[IBAN] please");
+  assert.equal(scrub("GB82 WEST 1234 5698 7654 32 is mine"), "[IBAN] is mine");
+  assert.equal(scrub("XX12 ABCD EFGH IJKL then DE89370400440532013000"), "XX12 ABCD EFGH IJKL then [IBAN]");
+  assert.equal(scrub("DE89 3704 0044 0532 0130 01 please").includes("[IBAN]"), false);
+});
+
+test("version numbers and order numbers are not taken for IPs and phone numbers", () => {
+  assert.equal(scrub("version 1.2.3.4"), "version 1.2.3.4");
+  assert.equal(scrub("release 10.0.1.2 and build 1.2.3.4.5"), "release 10.0.1.2 and build 1.2.3.4.5");
+  assert.equal(scrub("order number 12345678"), "order number 12345678");
+  assert.equal(scrub("Order #: 5551234567"), "Order #: 5551234567");
+  assert.equal(scrub("call 5551234567 or 555-1234"), "call [PHONE] or [PHONE]");
+});
+
+test("dates, years, coordinates and ISBNs are not taken for phone numbers", () => {
+  assert.equal(scrub("born 12.05.1990"), "born 12.05.1990");
+  assert.equal(scrub("due 15-01-2024"), "due 15-01-2024");
+  assert.equal(scrub("on 2024-01-15"), "on 2024-01-15");
+  assert.equal(scrub("in 2023 2024 2025"), "in 2023 2024 2025");
+  assert.equal(scrub("at 37.7749, -122.4194"), "at 37.7749, -122.4194");
+  assert.equal(scrub("ISBN 978-3-16-148410-0"), "ISBN 978-3-16-148410-0");
+  assert.equal(scrub("call 555-123-4567 on 12.05.2024"), "call [PHONE] on 12.05.2024");
+});
+
+test("ordinary numbers, dates and times are left alone", () => {
+  const text = "Around $1500, on 2024-05-01 at 12:30:45, order 4111 1111 1111 1112";
+  assert.equal(scrub(text).includes("[CREDIT_CARD]"), false);
+  assert.equal(scrub("Around $1500 on 2024-05-01 at 12:30:45"), "Around $1500 on 2024-05-01 at 12:30:45");
+});
+
+test("only the selected built-in detectors run", () => {
+  const emails_only = new PiiScrubber(builtin_redactors([PiiType.email]));
+
+  assert.equal(emails_only.scrub_text("a@b.io 192.168.0.1").text, "[EMAIL] 192.168.0.1");
+});
+
+test("custom pattern and function redactors are applied and reported", () => {
+  const custom = new PiiScrubber([
+    { name: "order_id", pattern: /ORD-\d+/ },
+    { name: "name", redact: text => text.replace("Jane", "[NAME]") }
+  ]);
+
+  const { messages, report } = custom.scrub([
+    { role: Role.user, content: "ORD-1 and ORD-2" },
+    { role: Role.ai, content: "Nothing here" },
+    { role: Role.user, content: "I am Jane" }
+  ].map(message => MessageSchema.parse(message)));
+
+  assert.deepEqual(messages.map(message => message.content), ["[ORDER_ID] and [ORDER_ID]", "Nothing here", "I am [NAME]"]);
+  assert.deepEqual(report, {
+    total: 3,
+    counts: { order_id: 2, name: 1 },
+    messages: [{ index: 0, counts: { order_id: 2 } }, { index: 2, counts: { name: 1 } }]
+  });
+});
+
+test("the client redacts messages before sending and reports per request", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server, { pii: { enabled: true } });
+  const reports: { rguid: string; report: RedactionReport }[] = [];
+  client.on("pii_redacted", event => reports.push(event));
+
+  await client.__call__(Role.user, "My email is jane@example.com");
+
+  const [request] = server.ad_requests();
+  assert.equal(request.body.messages[0].content, "My email is [EMAIL]");
+  assert.equal(reports.length, 1);
+  assert.equal(reports[0].rguid, request.body.RGUID);
+  assert.deepEqual(reports[0].report.counts, { email: 1 });
+});
+
+test("attachment names are scrubbed and URLs carrying PII are dropped", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server, { pii: { enabled: true } });
+  const reports: RedactionReport[] = [];
+  client.on("pii_redacted", event => reports.push(event.report));
+
+  await client.__call__(Role.user, "Here is my CV", {
+    attachments: [
+      { type: "file", name: "CV (jane@example.com).pdf", url: "https://files.example/u/jane@example.com/cv.pdf" },
+      { type: "image", name: "photo.png", url: "https://files.example/photo.png" }
+    ]
+  });
+
+  const [request] = server.ad_requests();
+  assert.deepEqual(request.payload_issues, []);
+  assert.deepEqual(request.body.messages[0].attachments, [
+    { type: "file", name: "CV ([EMAIL]).pdf" },
+    { type: "image", name: "photo.png", url: "https://files.example/photo.png" }
+  ]);
+  assert.deepEqual(reports[0].counts, { email: 2 });
+});
+
+test("privacy mode leaves attachment names and URLs out of the payload", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server, { privacy: { always_private: true } });
+
+  await client.__call__(Role.user, "Look", {
+    attachments: [{ type: "image", mime_type: "image/png", name: "me.png", url: "https://files.example/me.png" }]
+  });
+
+  assert.deepEqual(server.ad_requests()[0].body.messages[0].attachments, [{ type: "image", mime_type: "image/png" }]);
+});
+
+test("redaction is disabled by default", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server);
+
+  await client.__call__(Role.user, "My email is jane@example.com");
+
+  assert.equal(server.ad_requests()[0].body.messages[0].content, "My email is jane@example.com");
+});
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  AdcortexChatClient,
+  AdcortexClientOptions,
+  ProcessingMode,
+  Role
+} from '../src/adcortex/index.js';
+import { Message } from '../src/adcortex/types.js';
+import { MockAdcortexServer, sample_ad } from '../src/adcortex/testing.js';
+import { create_client, sleep } from './helpers.js';
+
+function create_prefetch_client(server: MockAdcortexServer, options: AdcortexClientOptions = {}): AdcortexChatClient {
+  return create_client(server, { processing_mode: ProcessingMode.prefetch, ...options });
+}
+
+test("await_ad resolves with the ad once it arrives within the budget", async () => {
+  const ad = sample_ad();
+  const server = new MockAdcortexServer().respond_with_ads([ad], 30);
+  const client = create_prefetch_client(server);
+
+  await client.__call__(Role.user, "I need a laptop");
+  assert.equal(client.latest_ad, null);
+
+  assert.deepEqual(await client.await_ad({ max_wait: 1 }), ad);
+  assert.equal(client.latest_ad, null);
+});
+
+test("an ad arriving after max_wait is handed out with the next turn", async () => {
+  const late = sample_ad({ ad_title: "Late" });
+  const server = new MockAdcortexServer().respond_with_ads([late], 60).respond_with_ads([], 200);
+  const client = create_prefetch_client(server);
+
+  await client.__call__(Role.user, "one");
+  assert.equal(await client.await_ad({ max_wait: 0.01 }), null);
+
+  await client.wait_until_idle();
+  await client.__call__(Role.user, "two");
+  assert.deepEqual(await client.await_ad({ max_wait: 0.01 }), late);
+});
+
+test("a message queued during a request starts another one when it completes", async () => {
+  const first = sample_ad({ ad_title: "First" });
+  const second = sample_ad({ ad_title: "Second" });
+  const server = new MockAdcortexServer().respond_with_ads([first], 30).respond_with_ads([second], 10);
+  const client = create_prefetch_client(server);
+
+  await client.__call__(Role.user, "one");
+  await sleep(10);
+  await client.__call__(Role.ai, "reply");
+  await client.__call__(Role.user, "two");
+
+  assert.deepEqual(await client.await_ad(), second);
+  assert.deepEqual(server.ad_requests().map(request => request.body.messages.map((m: Message) => m.content)), [
+    ["one"],
+    ["reply", "two"]
+  ]);
+});
+
+test("background mode waits for the next user message instead", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([sample_ad()], 30);
+  const client = create_client(server, { processing_mode: ProcessingMode.background });
+
+  await client.__call__(Role.user, "one");
+  await sleep(10);
+  await client.__call__(Role.user, "two");
+  await client.wait_until_idle();
+
+  assert.equal(server.ad_requests().length, 1);
+});
+
+test("await_ad without a request in flight returns the pending ad", async () => {
+  const ad = sample_ad();
+  const client = create_client(new MockAdcortexServer().respond_with_ads([ad]));
+
+  assert.equal(await client.await_ad(), null);
+  await client.__call__(Role.user, "one");
+  assert.deepEqual(await client.await_ad({ max_wait: 0 }), ad);
+});
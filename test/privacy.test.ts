@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  Consent,
+  ConsentSchema,
+  Role,
+  UserDataTreatment,
+  age_range
+} from '../src/adcortex/index.js';
+import { SessionInfo } from '../src/adcortex/types.js';
+import { MockAdcortexServer, sample_ad, sample_session_info } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+function session_with(consent: Partial<Consent>, age: number = 30): SessionInfo {
+  const session_info = sample_session_info();
+  return {
+    ...session_info,
+    user_info: { ...session_info.user_info, age: age },
+    consent: ConsentSchema.parse(consent)
+  };
+}
+
+test("age_range buckets ages", () => {
+  assert.equal(age_range(9), "under-13");
+  assert.equal(age_range(17), "13-17");
+  assert.equal(age_range(30), "25-34");
+  assert.equal(age_range(64), "55-64");
+  assert.equal(age_range(80), "65+");
+});
+
+test("full user data and consent signals are sent when consent is given", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server, {}, session_with({ gdpr_applies: true, tcf_consent: "CPXxRfAPXxRfAAfKABENB-CgAAAAAAAAAAYgAAAAAAAA" }));
+
+  await client.__call__(Role.user, "hello");
+
+  const [request] = server.ad_requests();
+  assert.deepEqual(request.payload_issues, []);
+  assert.equal(request.body.user_data.user_id, "test-user");
+  assert.equal(request.body.consent.gdpr_applies, true);
+  assert.equal(request.body.consent.tcf_consent, "CPXxRfAPXxRfAAfKABENB-CgAAAAAAAAAAYgAAAAAAAA");
+});
+
+test("withheld personalization consent coarsens user data", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server, {}, session_with({ ads_personalization: false }));
+
+  await client.__call__(Role.user, "hello");
+
+  const [request] = server.ad_requests();
+  assert.deepEqual(request.payload_issues, []);
+  assert.deepEqual(request.body.user_data, { language: "en", location: "US", age_range: "25-34" });
+  assert.equal(request.body.consent.ads_personalization, false);
+});
+
+test("the strip treatment keeps only the language", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server, {
+    privacy: { treatment: UserDataTreatment.strip }
+  }, session_with({ data_sharing: false }));
+
+  await client.__call__(Role.user, "hello");
+
+  assert.deepEqual(server.ad_requests()[0].body.user_data, { language: "en" });
+});
+
+test("always_private applies without any consent on the session", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server, { privacy: { always_private: true } });
+
+  await client.__call__(Role.user, "hello");
+
+  const [request] = server.ad_requests();
+  assert.equal(request.body.user_data.user_id, undefined);
+  assert.equal("consent" in request.body, false);
+});
+
+test("tracking events carry no user id in privacy mode", async () => {
+  const ad = sample_ad();
+  const server = new MockAdcortexServer().respond_with_ads([ad]);
+  const client = create_client(server, {}, session_with({ is_minor: true, gpp_string: "DBABMA~CPXxRfAPXxRfAAfKABENB-CgAAAAAAAAAAYgAAAAAAAA", gpp_sid: [2] }, 15));
+
+  await client.__call__(Role.user, "hello");
+  client.track_impression(ad);
+  await client.flush_events();
+
+  assert.deepEqual(server.ad_requests()[0].body.consent.gpp_sid, [2]);
+  assert.equal(server.tracking_events()[0].user_id, null);
+});
+
+test("users below the minimum age never get ad requests", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server, {}, session_with({}, 12));
+
+  await client.__call__(Role.user, "hello");
+
+  assert.equal(client.ads_suppressed(), true);
+  assert.equal(server.ad_requests().length, 0);
+  assert.equal(client.create_context(), "");
+});
+
+test("the minimum age is configurable", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server, { privacy: { min_age: 18 } }, session_with({}, 16));
+
+  await client.__call__(Role.user, "hello");
+
+  assert.equal(server.ad_requests().length, 0);
+});
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { ProcessingMode, Role } from '../src/adcortex/index.js';
+import { MockAdcortexServer, sample_ad } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+test("ai messages are queued without sending a request", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server);
+
+  await client.__call__(Role.ai, "Hello, how can I help?");
+
+  assert.equal(server.ad_requests().length, 0);
+});
+
+test("a user message sends the queued messages as one batch", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server);
+
+  await client.__call__(Role.ai, "Hello, how can I help?");
+  await client.__call__(Role.user, "I need a laptop");
+
+  const [request] = server.ad_requests();
+  assert.equal(server.ad_requests().length, 1);
+  assert.deepEqual(request.payload_issues, []);
+  assert.deepEqual(
+    request.body.messages.map((message: { role: string; content: string }) => [message.role, message.content]),
+    [["ai", "Hello, how can I help?"], ["user", "I need a laptop"]]
+  );
+});
+
+test("the queue is cleared after a successful batch", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server);
+
+  await client.__call__(Role.user, "first");
+  await client.__call__(Role.user, "second");
+
+  const batches = server.ad_requests().map(request => request.body.messages.length);
+  assert.deepEqual(batches, [1, 1]);
+});
+
+test("a failed batch stays queued and is resent with the next message", async () => {
+  const server = new MockAdcortexServer().respond_with_error(503);
+  const client = create_client(server);
+
+  await client.__call__(Role.user, "first");
+  await client.__call__(Role.user, "second");
+
+  const contents = server.ad_requests()[1].body.messages.map((message: { content: string }) => message.content);
+  assert.deepEqual(contents, ["first", "second"]);
+});
+
+test("a full queue drops its oldest message", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server, { max_queue_size: 2 });
+  const dropped: string[] = [];
+  client.on("message_dropped", event => dropped.push(event.message.content));
+
+  await client.__call__(Role.ai, "one");
+  await client.__call__(Role.ai, "two");
+  await client.__call__(Role.user, "three");
+
+  assert.deepEqual(dropped, ["one"]);
+  const contents = server.ad_requests()[0].body.messages.map((message: { content: string }) => message.content);
+  assert.deepEqual(contents, ["two", "three"]);
+});
+
+test("await mode resolves __call__ after the ad is received", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([sample_ad()], 20);
+  const client = create_client(server);
+
+  await client.__call__(Role.user, "I need a laptop");
+
+  assert.deepEqual(client.latest_ad, sample_ad());
+});
+
+test("background mode resolves __call__ before the ad is received", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([sample_ad()], 20);
+  const client = create_client(server, { processing_mode: ProcessingMode.background });
+
+  await client.__call__(Role.user, "I need a laptop");
+  assert.equal(client.latest_ad, null);
+
+  await client.wait_until_idle();
+  assert.deepEqual(client.latest_ad, sample_ad());
+});
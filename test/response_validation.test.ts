@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  AdcortexAuthError,
+  AdcortexClientOptions,
+  AdcortexError,
+  AdcortexNetworkError,
+  AdcortexRateLimitError,
+  AdcortexResponseValidationError,
+  AdcortexTimeoutError,
+  Role
+} from '../src/adcortex/index.js';
+import { MockAdcortexServer, sample_ad } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+async function call_and_capture(client_options: AdcortexClientOptions, server: MockAdcortexServer): Promise<AdcortexError> {
+  const errors: AdcortexError[] = [];
+  const client = create_client(server, { ...client_options, on_error: error => errors.push(error) });
+  await client.__call__(Role.user, "I need a laptop");
+  assert.equal(errors.length, 1);
+  return errors[0];
+}
+
+test("a valid response selects the first candidate and keeps all of them", async () => {
+  const first = sample_ad();
+  const second = sample_ad({ ad_title: "Other Product", link: "https://example.com/other" });
+  const server = new MockAdcortexServer().respond_with_ads([first, second]);
+  const client = create_client(server);
+
+  await client.__call__(Role.user, "I need a laptop");
+
+  assert.deepEqual(client.latest_ad, first);
+  assert.deepEqual(client.peek_ads(), [first, second]);
+});
+
+test("an empty ad list emits no_ad", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server);
+  let no_ad = 0;
+  client.on("no_ad", () => no_ad++);
+
+  await client.__call__(Role.user, "I need a laptop");
+
+  assert.equal(client.latest_ad, null);
+  assert.equal(no_ad, 1);
+});
+
+test("a malformed body raises AdcortexResponseValidationError and clears the previous ad", async () => {
+  const server = new MockAdcortexServer()
+    .respond_with_ads([sample_ad()])
+    .respond_with_malformed({ ads: [{ ad_title: "Missing fields" }] });
+  const errors: AdcortexError[] = [];
+  const client = create_client(server, { on_error: error => errors.push(error) });
+
+  await client.__call__(Role.user, "first");
+  assert.deepEqual(client.latest_ad, sample_ad());
+  await client.__call__(Role.user, "second");
+
+  const error = errors[0];
+  assert.ok(error instanceof AdcortexResponseValidationError);
+  assert.ok(error.issues.length > 0);
+  assert.equal(error.rguid, server.ad_requests()[1].body.RGUID);
+  assert.equal(client.latest_ad, null);
+  assert.deepEqual(client.peek_ads(), []);
+});
+
+test("a non-JSON body raises AdcortexResponseValidationError", async () => {
+  const server = new MockAdcortexServer().respond_with_malformed("<html>Bad Gateway</html>");
+
+  const error = await call_and_capture({}, server);
+
+  assert.ok(error instanceof AdcortexResponseValidationError);
+});
+
+test("invalid responses count towards the circuit breaker", async () => {
+  const server = new MockAdcortexServer().respond_with_malformed();
+  const client = create_client(server, { circuit_breaker_threshold: 1 });
+
+  await client.__call__(Role.user, "I need a laptop");
+
+  assert.equal(client.is_healthy(), false);
+});
+
+test("401 raises AdcortexAuthError with the status and RGUID", async () => {
+  const server = new MockAdcortexServer({ api_key: "another-key" });
+
+  const error = await call_and_capture({}, server);
+
+  assert.ok(error instanceof AdcortexAuthError);
+  assert.equal(error.status, 401);
+  assert.equal(error.rguid, server.ad_requests()[0].body.RGUID);
+});
+
+test("429 raises AdcortexRateLimitError with retry_after", async () => {
+  const server = new MockAdcortexServer().respond_with_error(429, { detail: "Slow down" }, { "Retry-After": "7" });
+
+  const error = await call_and_capture({}, server);
+
+  assert.ok(error instanceof AdcortexRateLimitError);
+  assert.equal(error.retry_after, 7);
+});
+
+test("a response slower than the timeout raises AdcortexTimeoutError", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([sample_ad()], 200);
+
+  const error = await call_and_capture({ timeout: 0.02 }, server);
+
+  assert.ok(error instanceof AdcortexTimeoutError);
+});
+
+test("a connection failure raises AdcortexNetworkError", async () => {
+  const server = new MockAdcortexServer().respond_with_network_error();
+
+  const error = await call_and_capture({}, server);
+
+  assert.ok(error instanceof AdcortexNetworkError);
+});
+
+test("throw_on_error rejects __call__", async () => {
+  const server = new MockAdcortexServer().respond_with_malformed();
+  const client = create_client(server, { throw_on_error: true });
+
+  await assert.rejects(client.__call__(Role.user, "I need a laptop"), AdcortexResponseValidationError);
+});
@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  DEFAULT_ENDPOINT_URL,
+  FetchTransport,
+  Role,
+  TransportError
+} from '../src/adcortex/index.js';
+import { MockAdcortexServer, sample_ad } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+const HEADERS = { "Content-Type": "application/json", "X-API-KEY": "test-key" };
+
+function post(transport: FetchTransport, deadline?: number) {
+  return transport.post({ url: DEFAULT_ENDPOINT_URL, body: {}, headers: HEADERS, timeout: 1000, deadline });
+}
+
+test("POSTs are retried on retryable statuses", async () => {
+  const server = new MockAdcortexServer({ validate_payload: false })
+    .respond_with_error(503)
+    .respond_with_error(500)
+    .respond_with_ads([sample_ad()]);
+  const transport = new FetchTransport({ retries: 2, base_delay: 0 }, server.fetch);
+
+  const response = await post(transport);
+
+  assert.equal(server.ad_requests().length, 3);
+  assert.deepEqual(response.data, { ads: [sample_ad()] });
+});
+
+test("statuses outside retry_on_status fail on the first attempt", async () => {
+  const server = new MockAdcortexServer({ validate_payload: false }).respond_with_error(400).respond_with_error(503);
+  const transport = new FetchTransport({ retries: 2, base_delay: 0 }, server.fetch);
+
+  const error = await post(transport).catch(e => e);
+  assert.equal(error.status, 400);
+  assert.equal(server.ad_requests().length, 1);
+
+  const strict = new FetchTransport({ retries: 2, base_delay: 0, retry_on_status: [] }, server.fetch);
+  assert.equal((await post(strict).catch(e => e)).status, 503);
+  assert.equal(server.ad_requests().length, 2);
+});
+
+test("Retry-After replaces the backoff and too long waits fail at once", async () => {
+  const server = new MockAdcortexServer({ validate_payload: false })
+    .respond_with_error(429, { detail: "slow down" }, { "Retry-After": "0.05" })
+    .respond_with_ads([])
+    .respond_with_error(429, { detail: "slow down" }, { "Retry-After": "120" });
+  const transport = new FetchTransport({ retries: 1, base_delay: 5000, max_retry_after: 30 }, server.fetch);
+
+  const started = Date.now();
+  await post(transport);
+  const elapsed = Date.now() - started;
+  assert.ok(elapsed >= 40 && elapsed < 1000, `waited ${elapsed}ms`);
+
+  const error = await post(transport).catch(e => e);
+  assert.equal(error.status, 429);
+  assert.equal(server.ad_requests().length, 3);
+});
+
+test("the backoff is capped by max_delay", async () => {
+  const server = new MockAdcortexServer({ validate_payload: false }).respond_with_error(503).respond_with_ads([]);
+  const transport = new FetchTransport({ retries: 1, base_delay: 10_000, max_delay: 10, jitter: 0 }, server.fetch);
+
+  const started = Date.now();
+  await post(transport);
+
+  assert.ok(Date.now() - started < 1000);
+});
+
+test("the deadline bounds the request, retries included", async () => {
+  const server = new MockAdcortexServer({ validate_payload: false }).set_default({ delay_ms: 40 * 1000 });
+  const transport = new FetchTransport({ retries: 5, base_delay: 0 }, server.fetch);
+
+  const started = Date.now();
+  const error = await post(transport, Date.now() + 100).catch(e => e);
+  const elapsed = Date.now() - started;
+
+  assert.ok(error instanceof TransportError);
+  assert.equal(error.code, "TIMEOUT");
+  assert.ok(elapsed < 1000, `took ${elapsed}ms`);
+});
+
+test("the client sends its RGUID as the idempotency key of every attempt", async () => {
+  const server = new MockAdcortexServer().respond_with_error(503).respond_with_ads([sample_ad()]);
+  const client = create_client(server, { transport: new FetchTransport({ retries: 1, base_delay: 0 }, server.fetch) });
+
+  await client.__call__(Role.user, "hello");
+
+  const [first, second] = server.ad_requests();
+  assert.equal(first.headers["idempotency-key"], first.body.RGUID);
+  assert.equal(second.headers["idempotency-key"], first.body.RGUID);
+  assert.equal(second.body.RGUID, first.body.RGUID);
+  assert.deepEqual(client.latest_ad, sample_ad());
+});
+
+test("the retry deadline of the client applies to a given transport", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([sample_ad()], 2000);
+  const client = create_client(server, { timeout: 5, retry: { deadline: 0.05 } });
+
+  const started = Date.now();
+  await client.__call__(Role.user, "hello");
+
+  assert.ok(Date.now() - started < 1000);
+  assert.equal(client.latest_ad, null);
+});
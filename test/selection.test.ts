@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  AdSelector,
+  ExcludeShownAdSelector,
+  FirstAdSelector,
+  RandomAdSelector,
+  Role,
+  RoundRobinAdSelector,
+  ScoredAdSelector,
+  SelectionContext
+} from '../src/adcortex/index.js';
+import { Ad } from '../src/adcortex/types.js';
+import { MockAdcortexServer, sample_ad } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+const A = sample_ad({ ad_title: "A", link: "https://a.example" });
+const B = sample_ad({ ad_title: "B", link: "https://b.example" });
+const C = sample_ad({ ad_title: "C", link: "https://c.example" });
+const CONTEXT: SelectionContext = { session_id: "session" };
+
+test("every built-in selector returns null without candidates", () => {
+  const selectors: AdSelector[] = [
+    new FirstAdSelector(),
+    new RandomAdSelector(),
+    new RoundRobinAdSelector(),
+    new ExcludeShownAdSelector(),
+    new ScoredAdSelector(() => 1)
+  ];
+
+  for (const selector of selectors) {
+    assert.equal(selector.select([], CONTEXT), null);
+  }
+});
+
+test("first, random and round-robin selectors pick by position", () => {
+  assert.equal(new FirstAdSelector().select([A, B, C]), A);
+  assert.equal(new RandomAdSelector(() => 0.5).select([A, B, C]), B);
+  assert.equal(new RandomAdSelector(() => 0.99).select([A, B, C]), C);
+
+  const round_robin = new RoundRobinAdSelector();
+  assert.deepEqual([1, 2, 3, 4].map(() => round_robin.select([A, B, C])), [A, B, C, A]);
+});
+
+test("the exclude-shown selector skips ads already shown in the same session", () => {
+  const selector = new ExcludeShownAdSelector(new RoundRobinAdSelector());
+
+  selector.record_shown(A, CONTEXT);
+  assert.equal(selector.select([A, B], CONTEXT), B);
+  assert.equal(selector.select([A, B], { session_id: "other" }), B);
+  selector.record_shown(B, CONTEXT);
+  assert.equal(selector.select([A, B], CONTEXT), null);
+});
+
+test("the exclude-shown selector forgets the oldest ads and sessions beyond its limits", () => {
+  const selector = new ExcludeShownAdSelector(new FirstAdSelector(), 2, 2);
+
+  selector.record_shown(A, CONTEXT);
+  selector.record_shown(B, CONTEXT);
+  selector.record_shown(C, CONTEXT);
+  assert.equal(selector.select([A, B, C], CONTEXT), A);
+
+  selector.record_shown(A, { session_id: "second" });
+  selector.record_shown(A, { session_id: "third" });
+  assert.equal(selector.select([A, B], CONTEXT), A);
+  assert.equal(selector.select([A, B], { session_id: "third" }), B);
+});
+
+test("the scored selector picks the highest score above the minimum, earlier on ties", () => {
+  const scores: Record<string, number> = { A: 1, B: 3, C: 3 };
+  const scorer = (ad: Ad) => scores[ad.ad_title];
+
+  assert.equal(new ScoredAdSelector(scorer).select([A, B, C], CONTEXT), B);
+  assert.equal(new ScoredAdSelector(scorer, 5).select([A, B, C], CONTEXT), null);
+  assert.equal(new ScoredAdSelector(() => 0, 0).select([A, B], CONTEXT), A);
+});
+
+test("the client uses a custom selector and reports the ads it hands out", async () => {
+  const shown: [string, string][] = [];
+  const last_candidate: AdSelector = {
+    select: candidates => candidates[candidates.length - 1] ?? null,
+    record_shown: (ad, context) => shown.push([ad.ad_title, context.session_id])
+  };
+  const client = create_client(new MockAdcortexServer().respond_with_ads([A, B, C]), { ad_selector: last_candidate });
+
+  await client.__call__(Role.user, "I need a laptop");
+
+  assert.deepEqual(client.peek_ads(), [A, B, C]);
+  assert.deepEqual(client.get_latest_ad(), C);
+  assert.deepEqual(shown, [["C", "test-session"]]);
+});
+
+test("the exclude-shown selector avoids repeating an ad across requests of a client", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([A, B]).respond_with_ads([A, B]);
+  const client = create_client(server, { ad_selector: new ExcludeShownAdSelector() });
+
+  await client.__call__(Role.user, "I need a laptop");
+  assert.deepEqual(client.get_latest_ad(), A);
+  await client.__call__(Role.user, "Something cheaper?");
+
+  assert.deepEqual(client.get_latest_ad(), B);
+});
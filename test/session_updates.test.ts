@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ZodError } from 'zod';
+
+import {
+  HistoryMode,
+  Language,
+  ProcessingMode,
+  Role
+} from '../src/adcortex/index.js';
+import { MockAdcortexServer, sample_ad } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+test("user and platform updates keep the queue and go out with the next request", async () => {
+  const server = new MockAdcortexServer().respond_with_error(500);
+  const client = create_client(server);
+  const updates: unknown[] = [];
+  client.on("session_updated", event => updates.push(event));
+
+  await client.__call__(Role.user, "Hola");
+  client.update_user_info({ user_id: "logged-in-user", language: Language.es });
+  client.update_platform({ varient: "beta" });
+  await client.__call__(Role.user, "Necesito un portátil");
+
+  const body = server.ad_requests()[1].body;
+  assert.equal(body.user_data.user_id, "logged-in-user");
+  assert.equal(body.user_data.language, Language.es);
+  assert.equal(body.user_data.age, 30);
+  assert.deepEqual(body.platform, { name: "test-platform", varient: "beta" });
+  assert.equal(body.messages.length, 2);
+  assert.deepEqual(updates, [
+    { session_id: "test-session", field: "user_info", reset: false },
+    { session_id: "test-session", field: "platform", reset: false }
+  ]);
+});
+
+test("invalid updates throw and leave the session unchanged", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server);
+
+  assert.throws(() => client.update_user_info({ location: "XX" }), ZodError);
+  assert.throws(() => client.update_user_info({ age: -1 }), ZodError);
+  await client.__call__(Role.user, "I need a laptop");
+
+  assert.equal(server.ad_requests()[0].body.user_data.location, "US");
+});
+
+test("switching character starts a new conversation unless messages are kept", async () => {
+  const server = new MockAdcortexServer().respond_with_error(500).respond_with_ads([sample_ad()]);
+  const client = create_client(server);
+
+  await client.__call__(Role.user, "Tell me a story");
+  client.switch_character("Narrator");
+  await client.__call__(Role.user, "I need a laptop");
+  assert.equal(client.latest_ad?.ad_title, "Sample Product");
+
+  client.switch_character("Guide", "Travel guide", { keep_messages: true });
+  assert.notEqual(client.latest_ad, null);
+  await client.__call__(Role.user, "Where should I go?");
+
+  const [, second, third] = server.ad_requests().map(request => request.body);
+  assert.deepEqual(second.messages.map((m: { content: string }) => m.content), ["I need a laptop"]);
+  assert.deepEqual(second.session_info, {
+    session_id: "test-session",
+    character_name: "Narrator",
+    character_metadata: "Friendly test assistant"
+  });
+  assert.equal(third.session_info.character_name, "Guide");
+  assert.equal(third.session_info.character_metadata, "Travel guide");
+});
+
+test("ads of a request in flight during a switch are discarded", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([sample_ad()], 30);
+  const client = create_client(server, { processing_mode: ProcessingMode.background, history: { mode: HistoryMode.window } });
+
+  const started = new Promise(resolve => client.once("request_started", resolve));
+  await client.__call__(Role.user, "I need a laptop");
+  await started;
+  client.switch_character("Narrator");
+  await client.wait_until_idle();
+
+  assert.equal(client.latest_ad, null);
+  await client.__call__(Role.user, "Tell me a story");
+  await client.wait_until_idle();
+  assert.deepEqual(server.ad_requests()[1].body.messages.map((m: { content: string }) => m.content), ["Tell me a story"]);
+});
+
+test("an update that puts the user below the minimum age clears the conversation", async () => {
+  const server = new MockAdcortexServer().respond_with_error(500);
+  const client = create_client(server, { privacy: { min_age: 18 } });
+
+  await client.__call__(Role.user, "Hi");
+  client.update_user_info({ age: 15 });
+  assert.equal(client.ads_suppressed(), true);
+
+  client.update_user_info({ age: 21 });
+  await client.__call__(Role.user, "I need a laptop");
+  assert.deepEqual(server.ad_requests()[1].body.messages.map((m: { content: string }) => m.content), ["I need a laptop"]);
+});
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  InsertionPoint,
+  Role,
+  StreamChunk,
+  StreamPart,
+  TrackingEventType,
+  inject_ad
+} from '../src/adcortex/index.js';
+import { MockAdcortexServer, sample_ad } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+async function* chunks(...values: StreamChunk[]): AsyncGenerator<StreamChunk> {
+  for (const value of values) {
+    yield value;
+  }
+}
+
+async function collect(parts: AsyncIterable<StreamPart>): Promise<StreamPart[]> {
+  const collected: StreamPart[] = [];
+  for await (const part of parts) {
+    collected.push(part);
+  }
+  return collected;
+}
+
+function joined(parts: StreamPart[]): string {
+  return parts.map(part => part.text).join("");
+}
+
+const AD = sample_ad({ placement_template: "Try Sample.", link: "" });
+
+test("the ad goes after the first paragraph, even when the blank line spans chunks", async () => {
+  const parts = await collect(inject_ad(chunks("First para.\n", "\nSecond ", "para."), AD));
+
+  assert.equal(joined(parts), "First para.\n\nTry Sample.\n\nSecond para.");
+  const ad_part = parts.find(part => part.type === "ad");
+  assert.deepEqual(ad_part && { ...ad_part, text: undefined }, {
+    type: "ad",
+    text: undefined,
+    ad: AD,
+    position: InsertionPoint.paragraph_end,
+    offset: 13
+  });
+});
+
+test("after_sentences counts sentences in OpenAI-style chunks", async () => {
+  const openai = (content: string) => ({ choices: [{ delta: { content } }] });
+  const stream = chunks(openai("One. Two"), { choices: [{ delta: {} }] }, openai("! Three 3.5 ok."));
+
+  const parts = await collect(inject_ad(stream, AD, { position: InsertionPoint.after_sentences, sentences: 2 }));
+
+  assert.equal(joined(parts), "One. Two! Try Sample. Three 3.5 ok.");
+});
+
+test("the ad is a trailing card when asked for or when the boundary never comes", async () => {
+  const trailing = await collect(inject_ad(chunks("Short reply."), AD, {
+    position: InsertionPoint.trailing,
+    template: "[{ad_title}]"
+  }));
+  assert.equal(joined(trailing), "Short reply.\n\n[Sample Product]");
+
+  const fallback = await collect(inject_ad(chunks("No blank line here."), AD));
+  assert.equal(fallback[fallback.length - 1].type, "ad");
+  assert.equal((fallback[fallback.length - 1] as { position: InsertionPoint }).position, InsertionPoint.trailing);
+});
+
+test("the reply passes through unchanged without an ad", async () => {
+  const parts = await collect(inject_ad(chunks("A.\n\nB."), () => null));
+
+  assert.deepEqual(parts.map(part => part.type), ["text", "text"]);
+  assert.equal(joined(parts), "A.\n\nB.");
+});
+
+test("the client inserts its latest ad and reports the impression", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([AD]);
+  const client = create_client(server);
+
+  await client.__call__(Role.user, "I need a laptop");
+  const parts = await collect(client.stream_with_ad(chunks("Sure.\n\nHere you go.")));
+  await client.flush_events();
+
+  assert.equal(joined(parts), "Sure.\n\nTry Sample.\n\nHere you go.");
+  assert.equal(client.latest_ad, null);
+  assert.deepEqual(server.tracking_events().map(event => event.event_type), [TrackingEventType.impression]);
+});
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  AdcortexTemplateError,
+  BuiltinTemplate,
+  ContextTemplate,
+  EscapeMode,
+  Role,
+  escape_value
+} from '../src/adcortex/index.js';
+import { MockAdcortexServer, sample_ad, sample_session_info } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+const AD = sample_ad();
+const SESSION = sample_session_info();
+
+function render(source: string, escape: EscapeMode = EscapeMode.none, values = { ad: AD, session: SESSION }): string {
+  return new ContextTemplate(source, escape).render(values);
+}
+
+test("placeholders insert ad fields and dotted session, user and platform values", () => {
+  assert.equal(render("{ad_title} / {ad.link}"), "Sample Product / https://example.com/sample-product");
+  assert.equal(render("{session.character_name} for {user.user_id} on {platform.name}"), "Assistant for test-user on test-platform");
+  assert.equal(render("{user.interests} {user.age}"), "technology 30");
+  assert.equal(render("{{literal}} {ad_title}"), "{literal} Sample Product");
+});
+
+test("sections render on truthy values and fall back to else", () => {
+  const template = "{#if link}Link: {link}{else}No link{/if}{#unless session.character_name} anonymous{/unless}";
+
+  assert.equal(render(template), "Link: https://example.com/sample-product");
+  assert.equal(render(template, EscapeMode.none, { ad: sample_ad({ link: "" }), session: SESSION }), "No link");
+});
+
+test("values missing at render time are empty", () => {
+  assert.equal(new ContextTemplate("[{session.character_name}] {ad_title}").render({ ad: AD }), "[] Sample Product");
+  assert.equal(render("{user.language}|{ad_description}", EscapeMode.none, { ad: sample_ad({ ad_description: "" }), session: SESSION }), "en|");
+});
+
+test("unknown placeholders, filters and unbalanced sections are rejected when parsed", () => {
+  assert.throws(() => new ContextTemplate("{ad_price}"), AdcortexTemplateError);
+  assert.throws(() => new ContextTemplate("{user.email}"), AdcortexTemplateError);
+  assert.throws(() => new ContextTemplate("{ad_title|upper}"), AdcortexTemplateError);
+  assert.throws(() => new ContextTemplate("{#if link}open"), AdcortexTemplateError);
+  assert.throws(() => new ContextTemplate("{#if link}a{/unless}"), AdcortexTemplateError);
+  assert.throws(() => new ContextTemplate("{else}"), AdcortexTemplateError);
+
+  const error = (() => {
+    try {
+      new ContextTemplate("Hi {nope}");
+    } catch (e) {
+      return e as AdcortexTemplateError;
+    }
+  })();
+  assert.equal(error?.position, 3);
+});
+
+test("values are escaped for the chosen mode unless marked raw", () => {
+  const ad = sample_ad({ ad_title: "<b>\"Fish\" & *Chips*</b>" });
+  const values = { ad: ad, session: SESSION };
+
+  assert.equal(render("{ad_title}", EscapeMode.html, values), "&lt;b&gt;&quot;Fish&quot; &amp; *Chips*&lt;/b&gt;");
+  assert.equal(render("{ad_title}", EscapeMode.markdown, values), "\\<b\\>\"Fish\" & \\*Chips\\*\\</b\\>");
+  assert.equal(render("{ad_title}", EscapeMode.json, values), "<b>\\\"Fish\\\" & *Chips*</b>");
+  assert.equal(render("<p>{ad_title|raw}</p>", EscapeMode.html, values), "<p><b>\"Fish\" & *Chips*</b></p>");
+  assert.equal(escape_value("a\nb", EscapeMode.json), "a\\nb");
+});
+
+test("built-in templates are selected by name", () => {
+  assert.equal(render(BuiltinTemplate.inline), "You might like Sample Product. (https://example.com/sample-product)");
+  assert.ok(render(BuiltinTemplate.system_prompt).startsWith("You are Assistant."));
+});
+
+test("the client renders its context with the configured template", async () => {
+  const client = create_client(new MockAdcortexServer().respond_with_ads([AD]), {
+    context_template: "Mention {ad_title|raw} as {session.character_name}: {placement_template}",
+    context_escape: EscapeMode.html
+  });
+
+  assert.equal(client.create_context(), "");
+  await client.__call__(Role.user, "I need a laptop");
+
+  assert.equal(client.create_context(), "Mention Sample Product as Assistant: You might like Sample Product.");
+  assert.throws(() => create_client(new MockAdcortexServer(), { context_template: "{unknown}" }), AdcortexTemplateError);
+});
@@ -0,0 +1,148 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  InMemoryTransport,
+  NoopLogger,
+  Role,
+  TrackingEvent,
+  TrackingEventType
+} from '../src/adcortex/index.js';
+import { EventTracker, EventTrackerSettings } from '../src/adcortex/tracking.js';
+import { MockAdcortexServer, sample_ad } from '../src/adcortex/testing.js';
+import { create_client, sleep } from './helpers.js';
+
+function create_tracker(transport: InMemoryTransport, settings: Partial<EventTrackerSettings> = {}): EventTracker {
+  return new EventTracker(transport, {
+    endpoints: ["https://adcortex.example/ads/events"],
+    headers: {},
+    timeout: 1,
+    batch_size: 20,
+    flush_interval: 60,
+    max_pending: 1000,
+    failover_threshold: 3,
+    ...settings
+  }, new NoopLogger());
+}
+
+function sent_batches(transport: InMemoryTransport): TrackingEvent[][] {
+  return transport.requests.map(request => request.body.events);
+}
+
+test("impressions and clicks are deduplicated per event type, ad and request", () => {
+  const tracker = create_tracker(new InMemoryTransport());
+  const ad = sample_ad();
+
+  assert.equal(tracker.track(TrackingEventType.impression, ad, "rguid-1", "session", "user"), true);
+  assert.equal(tracker.track(TrackingEventType.impression, ad, "rguid-1", "session", "user"), false);
+  assert.equal(tracker.track(TrackingEventType.click, ad, "rguid-1", "session", "user"), true);
+  assert.equal(tracker.track(TrackingEventType.impression, ad, "rguid-2", "session", "user"), true);
+  assert.equal(tracker.track(TrackingEventType.impression, sample_ad({ ad_title: "Other" }), "rguid-1", "session", "user"), true);
+
+  assert.equal(tracker.pending().length, 4);
+  tracker.close();
+});
+
+test("pending events are sent in one batch once batch_size is reached", async () => {
+  const transport = new InMemoryTransport();
+  const tracker = create_tracker(transport, { batch_size: 3 });
+
+  for (const title of ["A", "B"]) {
+    tracker.track(TrackingEventType.impression, sample_ad({ ad_title: title }), "rguid", "session", "user");
+  }
+  assert.equal(transport.requests.length, 0);
+  tracker.track(TrackingEventType.click, sample_ad({ ad_title: "A" }), "rguid", "session", "user");
+  await tracker.flush();
+
+  assert.deepEqual(sent_batches(transport).map(batch => batch.map(event => event.ad_title)), [["A", "B", "A"]]);
+  assert.equal(tracker.pending().length, 0);
+});
+
+test("a failed batch is sent again with its event ids", async () => {
+  const transport = new InMemoryTransport().enqueue_error(new Error("offline"));
+  const tracker = create_tracker(transport);
+
+  tracker.track(TrackingEventType.impression, sample_ad(), "rguid", "session", "user");
+  await tracker.flush();
+  tracker.track(TrackingEventType.click, sample_ad(), "rguid", "session", "user");
+  await tracker.flush();
+  tracker.close();
+
+  const [failed, retried] = sent_batches(transport);
+  assert.deepEqual(retried.map(event => event.event_type), [TrackingEventType.impression, TrackingEventType.click]);
+  assert.equal(retried[0].event_id, failed[0].event_id);
+});
+
+test("events tracked while a flush is in progress are sent before it resolves", async () => {
+  let release = () => {};
+  const transport = new InMemoryTransport(async () => {
+    await new Promise<void>(resolve => (release = resolve));
+    return { status: 200, data: {}, headers: {} };
+  });
+  const tracker = create_tracker(transport);
+
+  tracker.track(TrackingEventType.impression, sample_ad(), "rguid", "session", "user");
+  const flushed = tracker.flush();
+  tracker.track(TrackingEventType.click, sample_ad(), "rguid", "session", "user");
+  const joined = tracker.flush();
+  release();
+  await sleep(0);
+  release();
+  await Promise.all([flushed, joined]);
+
+  assert.deepEqual(sent_batches(transport).map(batch => batch.map(event => event.event_type)), [
+    [TrackingEventType.impression],
+    [TrackingEventType.click]
+  ]);
+  assert.equal(tracker.pending().length, 0);
+});
+
+test("a batch rejected with a client error is dropped instead of retried", async () => {
+  const transport = new InMemoryTransport().enqueue_response({ error: "bad request" }, 400);
+  const tracker = create_tracker(transport);
+
+  tracker.track(TrackingEventType.impression, sample_ad(), "rguid", "session", "user");
+  await tracker.flush();
+  assert.equal(tracker.pending().length, 0);
+
+  tracker.track(TrackingEventType.click, sample_ad(), "rguid", "session", "user");
+  await tracker.flush();
+  tracker.close();
+
+  assert.deepEqual(sent_batches(transport).map(batch => batch.map(event => event.event_type)), [
+    [TrackingEventType.impression],
+    [TrackingEventType.click]
+  ]);
+});
+
+test("only the most recent events are remembered for deduplication", async () => {
+  const tracker = create_tracker(new InMemoryTransport());
+  const first = sample_ad({ ad_title: "First" });
+
+  tracker.track(TrackingEventType.impression, first, "rguid-0", "session", "user");
+  for (let i = 1; i <= 1000; i++) {
+    tracker.track(TrackingEventType.impression, sample_ad({ ad_title: `Ad ${i}` }), `rguid-${i}`, "session", "user");
+  }
+
+  assert.equal(tracker.track(TrackingEventType.impression, first, "rguid-0", "session", "user"), true);
+  tracker.close();
+});
+
+test("the client batches impressions and clicks of its ads", async () => {
+  const server = new MockAdcortexServer().respond_with_ads([sample_ad()]);
+  const client = create_client(server, { tracking: { batch_size: 2 } });
+
+  await client.__call__(Role.user, "I need a laptop");
+  const ad = client.get_latest_ad()!;
+  assert.equal(client.track_impression(ad), true);
+  assert.equal(client.track_click(ad), true);
+  assert.equal(client.track_click(ad), false);
+  await client.flush_events();
+
+  const tracking = server.requests.filter(request => request.kind === "tracking");
+  assert.equal(tracking.length, 1);
+  assert.deepEqual(tracking[0].body.events.map((event: TrackingEvent) => event.event_type), [
+    TrackingEventType.impression,
+    TrackingEventType.click
+  ]);
+});
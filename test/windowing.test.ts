@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  ContextWindow,
+  HistoryMode,
+  NoopLogger,
+  Role
+} from '../src/adcortex/index.js';
+import { Message, MessageSchema } from '../src/adcortex/types.js';
+import { MockAdcortexServer } from '../src/adcortex/testing.js';
+import { create_client } from './helpers.js';
+
+function messages(...contents: string[]): Message[] {
+  return contents.map((content, i) => MessageSchema.parse({ role: i % 2 === 0 ? Role.user : Role.ai, content }));
+}
+
+function sent_contents(server: MockAdcortexServer): string[][] {
+  return server.ad_requests().map(request => request.body.messages.map((message: Message) => message.content));
+}
+
+test("max_turns keeps the most recent messages", async () => {
+  const window = new ContextWindow({ max_turns: 2, keep_first_user_message: false }, new NoopLogger());
+
+  const selected = await window.select(messages("a", "b", "c"));
+
+  assert.deepEqual(selected.map(message => message.content), ["b", "c"]);
+});
+
+test("max_chars stops before the budget is exceeded but always keeps the newest message", async () => {
+  const window = new ContextWindow({ max_chars: 5, keep_first_user_message: false }, new NoopLogger());
+
+  assert.deepEqual((await window.select(messages("aaa", "bb", "cc"))).map(m => m.content), ["bb", "cc"]);
+  assert.deepEqual((await window.select(messages("aaa", "bbbbbbbb"))).map(m => m.content), ["bbbbbbbb"]);
+});
+
+test("max_tokens uses the token estimator", async () => {
+  const window = new ContextWindow({
+    max_tokens: 2,
+    keep_first_user_message: false,
+    token_estimator: text => text.split(" ").length
+  }, new NoopLogger());
+
+  const selected = await window.select(messages("one two", "three", "four"));
+
+  assert.deepEqual(selected.map(message => message.content), ["three", "four"]);
+});
+
+test("keep_first_user_message prepends the first user message outside the window", async () => {
+  const history = messages("first", "b", "c", "d");
+  const window = new ContextWindow({ max_turns: 1, keep_first_user_message: true }, new NoopLogger());
+
+  const selected = await window.select(history.slice(1), history[0]);
+
+  assert.deepEqual(selected.map(message => message.content), ["first", "d"]);
+});
+
+test("long messages are truncated, or summarized when a summarizer is given", async () => {
+  const truncating = new ContextWindow({ max_message_chars: 4, keep_first_user_message: false }, new NoopLogger());
+  const summarizing = new ContextWindow({
+    max_message_chars: 4,
+    keep_first_user_message: false,
+    summarize: message => `summary of ${message.content.length} chars`
+  }, new NoopLogger());
+
+  assert.equal((await truncating.select(messages("abcdefgh")))[0].content, "abc…");
+  assert.equal((await summarizing.select(messages("abcdefgh")))[0].content, "summary of 8 chars");
+});
+
+test("a failing summarizer falls back to truncation", async () => {
+  const window = new ContextWindow({
+    max_message_chars: 4,
+    keep_first_user_message: false,
+    summarize: () => { throw new Error("LLM unavailable"); }
+  }, new NoopLogger());
+
+  assert.equal((await window.select(messages("abcdefgh")))[0].content, "abc…");
+});
+
+test("delta mode sends only messages the server has not seen", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server);
+
+  await client.__call__(Role.user, "one");
+  await client.__call__(Role.ai, "two");
+  await client.__call__(Role.user, "three");
+
+  assert.deepEqual(sent_contents(server), [["one"], ["two", "three"]]);
+});
+
+test("window mode resends the recent conversation within the limits", async () => {
+  const server = new MockAdcortexServer();
+  const client = create_client(server, {
+    history: { mode: HistoryMode.window, max_turns: 2, keep_first_user_message: true }
+  });
+
+  await client.__call__(Role.user, "one");
+  await client.__call__(Role.ai, "two");
+  await client.__call__(Role.user, "three");
+  await client.__call__(Role.ai, "four");
+  await client.__call__(Role.user, "five");
+
+  assert.deepEqual(sent_contents(server), [["one"], ["one", "two", "three"], ["one", "four", "five"]]);
+});